@@ -2,14 +2,59 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * Express `trust proxy` setting: 'true'/'false', a number of proxy hops,
+ * or a list of trusted addresses/subnets
+ */
+const parseTrustProxy = (value?: string): boolean | number | string => {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+const nodeEnv = process.env.NODE_ENV || 'development';
+
 export default {
   port: process.env.PORT || 5000,
-  nodeEnv: process.env.NODE_ENV || 'development',
+  nodeEnv,
+  // Without this, behind a proxy every request comes from the proxy's IP
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
   mongodbUri: process.env.MONGODB_URI || '',
   jwtSecret: process.env.JWT_SECRET || '',
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+  // Access tokens are short-lived; sessions live on through refresh tokens
+  accessTokenTtlMinutes: Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15,
+  refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
+  emailVerificationTtlHours: Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 48,
+  passwordResetTtlMinutes: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60,
   googleClientId: process.env.GOOGLE_CLIENT_ID || '',
   googleClientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
   googleCallbackUrl: process.env.GOOGLE_CALLBACK_URL || '',
   clientUrl: process.env.CLIENT_URL || 'http://localhost:5173',
+  schedulerIntervalMs: Number(process.env.SCHEDULER_INTERVAL_MS) || 60000,
+  reminderHoursBeforeDeadline: Number(process.env.REMINDER_HOURS_BEFORE_DEADLINE) || 24,
+  rateLimit: {
+    // 'memory' counts per process; 'mongo' shares counters between instances
+    store: process.env.RATE_LIMIT_STORE || 'memory',
+    apiWindowMs: Number(process.env.RATE_LIMIT_API_WINDOW_MS) || 60_000,
+    apiMax: Number(process.env.RATE_LIMIT_API_MAX) || 300,
+    authWindowMs: Number(process.env.RATE_LIMIT_AUTH_WINDOW_MS) || 15 * 60_000,
+    authMax: Number(process.env.RATE_LIMIT_AUTH_MAX) || 20,
+    // Failed passwords for one account before it is locked
+    loginMaxFailures: Number(process.env.LOGIN_MAX_FAILURES) || 5,
+    // Each lockout within a day doubles, from base up to max
+    lockoutBaseMinutes: Number(process.env.LOCKOUT_BASE_MINUTES) || 5,
+    lockoutMaxMinutes: Number(process.env.LOCKOUT_MAX_MINUTES) || 24 * 60,
+  },
+  email: {
+    // 'smtp' sends for real; 'file' writes .eml files to outboxDir. No
+    // default in production, so a missing setting fails at startup.
+    transport: process.env.EMAIL_TRANSPORT || (nodeEnv === 'production' ? '' : 'file'),
+    from: process.env.EMAIL_FROM || 'Secret Santa <no-reply@localhost>',
+    outboxDir: process.env.EMAIL_OUTBOX_DIR || 'outbox',
+    smtpHost: process.env.SMTP_HOST || 'localhost',
+    smtpPort: Number(process.env.SMTP_PORT) || 587,
+    smtpSecure: process.env.SMTP_SECURE === 'true',
+    smtpUser: process.env.SMTP_USER || '',
+    smtpPass: process.env.SMTP_PASS || '',
+  },
 };
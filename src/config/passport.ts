@@ -23,6 +23,7 @@ passport.use(
             if (user) {
               // Link Google account to existing user
               user.googleId = profile.id;
+              user.emailVerifiedAt = user.emailVerifiedAt || new Date();
               await user.save();
             }
           }
@@ -35,6 +36,8 @@ passport.use(
             email: profile.emails?.[0]?.value,
             googleId: profile.id,
             role: 'user',
+            // Google has already confirmed the address
+            emailVerifiedAt: new Date(),
           });
         }
 
@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import ScheduledJob, { JOB_STATUSES, JOB_TYPES } from '../models/ScheduledJob';
+import { AUDIT_ACTIONS, AuditAction } from '../models/AuditLog';
+import { findAuditEntries } from '../services/audit';
+
+// Validation rules
+export const getJobsValidation = [
+  query('eventId').optional().isMongoId().withMessage('Invalid event ID'),
+  query('type').optional().isIn(JOB_TYPES).withMessage('Invalid job type'),
+  query('status').optional().isIn(JOB_STATUSES).withMessage('Invalid job status'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be at least 1'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
+export const getAuditLogValidation = [
+  query('action').optional().isIn(AUDIT_ACTIONS).withMessage('Invalid audit action'),
+  query('actorId').optional().isMongoId().withMessage('Invalid actor ID'),
+  query('eventId').optional().isMongoId().withMessage('Invalid event ID'),
+  query('targetUserId').optional().isMongoId().withMessage('Invalid target user ID'),
+  query('from').optional().isISO8601().withMessage('Valid date is required'),
+  query('to').optional().isISO8601().withMessage('Valid date is required'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be at least 1'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
+// Scheduled job history, newest first (admin only)
+export const getJobs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { eventId, type, status } = req.query;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    const filter = {
+      ...(eventId && { eventId }),
+      ...(type && { type }),
+      ...(status && { status }),
+    };
+
+    const [jobs, total] = await Promise.all([
+      ScheduledJob.find(filter)
+        .populate('eventId', 'name')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ScheduledJob.countDocuments(filter),
+    ]);
+
+    res.json({
+      jobs: jobs.map((job) => ({
+        id: job._id,
+        type: job.type,
+        event: job.eventId,
+        runAt: job.runAt,
+        status: job.status,
+        attempts: job.attempts,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        result: job.result,
+        error: job.error,
+      })),
+      page,
+      limit,
+      total,
+    });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({ message: 'Error fetching jobs' });
+  }
+};
+
+// Audit log of sensitive actions, newest first (admin only)
+export const getAuditLog = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { action, actorId, eventId, targetUserId, from, to } = req.query;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 50;
+
+    const { entries, total } = await findAuditEntries({
+      action: action as AuditAction | undefined,
+      actorId: actorId as string | undefined,
+      eventId: eventId as string | undefined,
+      targetUserId: targetUserId as string | undefined,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+      page,
+      limit,
+    });
+
+    res.json({
+      entries: entries.map((entry) => ({
+        id: entry._id,
+        action: entry.action,
+        actor: entry.actorId,
+        apiKeyId: entry.apiKeyId,
+        system: entry.system,
+        event: entry.eventId,
+        targetUser: entry.targetUserId,
+        ip: entry.ip,
+        details: entry.details,
+        createdAt: entry.createdAt,
+      })),
+      page,
+      limit,
+      total,
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ message: 'Error fetching audit log' });
+  }
+};
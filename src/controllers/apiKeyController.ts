@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { API_KEY_SCOPES, IApiKey } from '../models/ApiKey';
+import { ApiKeyError, createApiKey, listApiKeys, revokeApiKey } from '../services/apiKeys';
+
+// Validation rules
+export const createApiKeyValidation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+  body('scopes').isArray({ min: 1 }).withMessage('At least one scope is required'),
+  body('scopes.*')
+    .isIn(API_KEY_SCOPES)
+    .withMessage(`Scopes must be among: ${API_KEY_SCOPES.join(', ')}`),
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Valid date is required')
+    .custom((value) => {
+      if (new Date(value) <= new Date()) {
+        throw new Error('Expiry must be in the future');
+      }
+      return true;
+    }),
+];
+
+const formatApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  createdAt: apiKey.createdAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  expiresAt: apiKey.expiresAt,
+});
+
+// Create a personal API key; the key is only shown in this response
+export const createMyApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { name, scopes, expiresAt } = req.body;
+    const { apiKey, key } = await createApiKey(req.user.userId, {
+      name,
+      scopes,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+
+    res.status(201).json({ apiKey: formatApiKey(apiKey), key });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Create API key error:', error);
+    res.status(500).json({ message: 'Error creating API key' });
+  }
+};
+
+// List my API keys
+export const getMyApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const apiKeys = await listApiKeys(req.user.userId);
+
+    res.json({ apiKeys: apiKeys.map(formatApiKey) });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({ message: 'Error fetching API keys' });
+  }
+};
+
+// Revoke one of my API keys
+export const deleteMyApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    if (!(await revokeApiKey(req.user.userId, req.params.keyId))) {
+      res.status(404).json({ message: 'API key not found' });
+      return;
+    }
+
+    res.json({ message: 'API key revoked' });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ message: 'Error revoking API key' });
+  }
+};
@@ -1,19 +1,114 @@
 import { Request, Response } from 'express';
-import Event from '../models/Event';
+import { body, query, validationResult } from 'express-validator';
+import Event, { IDrawReceipt } from '../models/Event';
 import {
   assignSecretSanta,
   getUserAssignment,
   getAllAssignments,
+  getChainOrder,
+  verifyDraw,
 } from '../services/secretSanta';
+import { UnsatisfiableDrawError } from '../services/matching';
+import { renderGiftTags, renderMasterList } from '../services/giftTags';
+import {
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportError,
+  ExportFormat,
+  sendExport,
+} from '../services/export';
+import { IWishlistItem } from '../models/User';
+import {
+  getRevealedPerson,
+  isRevealed,
+  revealEvent,
+  RevealError,
+} from '../services/reveal';
+import { EventTransitionError, hasAssignments } from '../services/eventLifecycle';
+import { auditActor, recordAudit } from '../services/audit';
+import {
+  getSealedSummary,
+  isSealed,
+  SEALED_MESSAGE,
+  SealError,
+  unsealEvent,
+} from '../services/sealing';
 import mongoose from 'mongoose';
 
-// Trigger Secret Santa assignment (admin only)
+// Validation rules
+export const triggerAssignmentValidation = [
+  body('seed')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 256 })
+    .withMessage('Seed must be between 1 and 256 characters'),
+];
+
+export const exportAssignmentsValidation = [
+  query('format')
+    .optional()
+    .isIn(EXPORT_FORMATS)
+    .withMessage('Format must be csv, xlsx or json'),
+  query('fields').optional().isString(),
+];
+
+export const unsealAssignmentsValidation = [
+  body('reason')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('A reason of at most 500 characters is required'),
+];
+
+/**
+ * A draw receipt without its seed, which together with the participants
+ * would let anyone re-run the draw and read a sealed map
+ */
+const sealedReceipt = (receipt: IDrawReceipt) => ({
+  algorithmVersion: receipt.algorithmVersion,
+  mode: receipt.mode,
+  participantCount: receipt.participantCount,
+  participantsHash: receipt.participantsHash,
+  rulesHash: receipt.rulesHash,
+  drawnAt: receipt.drawnAt,
+  amendedAt: receipt.amendedAt,
+});
+
+type EventAssignment = Awaited<ReturnType<typeof getAllAssignments>>[number];
+
+const wishlistText = (wishlist?: IWishlistItem[]): string =>
+  (wishlist || []).map((item) => item.title).join('; ');
+
+const ASSIGNMENT_EXPORT_COLUMNS: ExportColumn<EventAssignment>[] = [
+  { key: 'santaName', header: 'Santa Name', value: (a) => a.santa.name },
+  { key: 'santaEmail', header: 'Santa Email', value: (a) => a.santa.email },
+  { key: 'receiverNumber', header: 'Receiver Number', value: (a) => a.receiverNumber },
+  { key: 'receiverLabel', header: 'Receiver Label', value: (a) => a.receiverLabel },
+  { key: 'receiverName', header: 'Receiver Name', value: (a) => a.receiver.name },
+  { key: 'receiverEmail', header: 'Receiver Email', value: (a) => a.receiver.email },
+  {
+    key: 'receiverWishlist',
+    header: 'Receiver Wishlist',
+    value: (a) => wishlistText(a.receiver.wishlist),
+  },
+  { key: 'giftStatus', header: 'Gift Status', value: (a) => a.giftStatus },
+  { key: 'trackingNumber', header: 'Tracking Number', value: (a) => a.trackingNumber },
+];
+
+// Trigger Secret Santa assignment (organisers only)
 export const triggerAssignment = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const { id } = req.params;
+    const { seed } = req.body;
 
     const event = await Event.findById(id);
     if (!event) {
@@ -26,13 +121,47 @@ export const triggerAssignment = async (
       return;
     }
 
+    // Whoever picks the seed could work out the map
+    if (seed && isSealed(event)) {
+      res.status(400).json({ message: 'A seed cannot be chosen for a sealed event' });
+      return;
+    }
+
     // Perform assignment
-    await assignSecretSanta(event._id as mongoose.Types.ObjectId);
+    const receipt = await assignSecretSanta(event._id as mongoose.Types.ObjectId, {
+      seed,
+      actorId: req.user?.userId,
+    });
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'assignment.trigger',
+      eventId: event._id as mongoose.Types.ObjectId,
+      details: {
+        mode: receipt.mode,
+        participantCount: receipt.participantCount,
+        participantsHash: receipt.participantsHash,
+      },
+    });
 
     res.json({
       message: 'Secret Santa assignments completed successfully',
+      receipt: isSealed(event) ? sealedReceipt(receipt) : receipt,
     });
   } catch (error: any) {
+    if (error instanceof EventTransitionError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    if (error instanceof UnsatisfiableDrawError) {
+      res.status(error.status).json({
+        message: error.message,
+        reasons: error.reasons,
+      });
+      return;
+    }
+
     console.error('Assignment error:', error);
     res.status(500).json({
       message: error.message || 'Error creating assignments',
@@ -59,7 +188,7 @@ export const getMyAssignment = async (
       return;
     }
 
-    if (event.status !== 'assigned') {
+    if (!hasAssignments(event)) {
       res.status(400).json({
         message: 'Assignments have not been completed yet',
       });
@@ -68,7 +197,8 @@ export const getMyAssignment = async (
 
     const assignment = await getUserAssignment(
       event._id as mongoose.Types.ObjectId,
-      new mongoose.Types.ObjectId(req.user.userId)
+      new mongoose.Types.ObjectId(req.user.userId),
+      event.labelScheme
     );
 
     if (!assignment) {
@@ -81,7 +211,14 @@ export const getMyAssignment = async (
     res.json({
       assignment: {
         receiverNumber: assignment.receiverNumber,
+        receiverLabel: assignment.receiverLabel,
         receiverWishlist: assignment.receiverWishlist,
+        giftStatus: assignment.giftStatus,
+        trackingNumber: assignment.trackingNumber,
+        // The receiver's identity stays hidden until the reveal
+        ...(isRevealed(event) && {
+          receiver: await getRevealedPerson(id, req.user.userId, 'santa'),
+        }),
       },
     });
   } catch (error) {
@@ -90,7 +227,116 @@ export const getMyAssignment = async (
   }
 };
 
-// Get all assignments (admin only)
+// Find out who your santa was, once santas have been revealed (user)
+export const getMySanta = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    if (!isRevealed(event)) {
+      res.status(403).json({
+        message: 'Santas have not been revealed yet',
+        revealAt: event.revealAt,
+      });
+      return;
+    }
+
+    const santa = await getRevealedPerson(id, req.user.userId, 'receiver');
+    if (!santa) {
+      res.status(404).json({
+        message: 'No assignment found. Make sure you joined the event.',
+      });
+      return;
+    }
+
+    res.json({
+      santa,
+    });
+  } catch (error) {
+    console.error('Get my santa error:', error);
+    res.status(500).json({ message: 'Error fetching santa' });
+  }
+};
+
+// Reveal every santa now instead of waiting for revealAt (organisers only)
+export const revealSantas = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    await revealEvent(event, req.user?.userId);
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'assignment.reveal',
+      eventId: event._id as mongoose.Types.ObjectId,
+    });
+
+    res.json({
+      message: 'Santas have been revealed',
+      revealedAt: event.revealedAt,
+    });
+  } catch (error) {
+    if (error instanceof RevealError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Reveal error:', error);
+    res.status(500).json({ message: 'Error revealing santas' });
+  }
+};
+
+// Break the seal on an event's assignments, with a reason; audited (organisers only)
+export const unsealAssignments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    await unsealEvent(event, req.body.reason, auditActor(req));
+
+    res.json({
+      message: 'Assignments have been unsealed',
+      unsealedAt: event.unsealedAt,
+    });
+  } catch (error) {
+    if (error instanceof SealError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Unseal error:', error);
+    res.status(500).json({ message: 'Error unsealing assignments' });
+  }
+};
+
+// Get all assignments (organisers only)
 export const getAssignments = async (
   req: Request,
   res: Response
@@ -104,17 +350,43 @@ export const getAssignments = async (
       return;
     }
 
-    if (event.status !== 'assigned') {
+    if (!hasAssignments(event)) {
       res.status(400).json({
         message: 'Assignments have not been completed yet',
       });
       return;
     }
 
-    const assignments = await getAllAssignments(event._id as mongoose.Types.ObjectId);
+    if (isSealed(event)) {
+      res.json({
+        assignmentMode: event.assignmentMode,
+        sealed: true,
+        summary: await getSealedSummary(event._id as mongoose.Types.ObjectId),
+      });
+      return;
+    }
+
+    const assignments = await getAllAssignments(
+      event._id as mongoose.Types.ObjectId,
+      event.labelScheme
+    );
+
+    // The full santa map is sensitive; record who looked at it
+    await recordAudit({
+      ...auditActor(req),
+      action: 'assignment.view',
+      eventId: event._id as mongoose.Types.ObjectId,
+    });
 
     res.json({
+      assignmentMode: event.assignmentMode,
+      labelScheme: event.labelScheme,
+      sealed: false,
       assignments,
+      // Gift-opening order, only meaningful when everyone forms one cycle
+      ...(event.assignmentMode === 'single-cycle' && {
+        chain: getChainOrder(assignments),
+      }),
     });
   } catch (error) {
     console.error('Get assignments error:', error);
@@ -122,12 +394,18 @@ export const getAssignments = async (
   }
 };
 
-// Export assignments as CSV (admin only)
-export const exportAssignmentsCSV = async (
+// Export assignments as CSV, XLSX or JSON (organisers only)
+export const exportAssignments = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const { id } = req.params;
 
     const event = await Event.findById(id);
@@ -136,41 +414,158 @@ export const exportAssignmentsCSV = async (
       return;
     }
 
-    if (event.status !== 'assigned') {
+    if (!hasAssignments(event)) {
       res.status(400).json({
         message: 'Assignments have not been completed yet',
       });
       return;
     }
 
-    const assignments = await getAllAssignments(event._id as mongoose.Types.ObjectId);
+    if (isSealed(event)) {
+      res.status(403).json({ message: SEALED_MESSAGE });
+      return;
+    }
 
-    // Create CSV content
-    const csvHeader =
-      'Santa Name,Santa Email,Receiver Number,Receiver Name,Receiver Email,Receiver Wishlist\n';
-    const csvRows = assignments
-      .map((a) => {
-        const santaName = a.santa.name.replace(/,/g, ' ');
-        const santaEmail = a.santa.email;
-        const receiverNumber = a.receiverNumber;
-        const receiverName = a.receiver.name.replace(/,/g, ' ');
-        const receiverEmail = a.receiver.email;
-        const wishlistText = a.receiver.wishlist.wishText.replace(/,/g, ' ');
+    const assignments = await getAllAssignments(
+      event._id as mongoose.Types.ObjectId,
+      event.labelScheme
+    );
 
-        return `${santaName},${santaEmail},${receiverNumber},${receiverName},${receiverEmail},"${wishlistText}"`;
-      })
-      .join('\n');
+    await sendExport(res, {
+      format: (req.query.format as ExportFormat) || 'csv',
+      fields: req.query.fields as string | undefined,
+      filename: `secret-santa-${event.name}-assignments`,
+      sheetName: 'Assignments',
+      columns: ASSIGNMENT_EXPORT_COLUMNS,
+      rows: assignments,
+    });
 
-    const csv = csvHeader + csvRows;
+    await recordAudit({
+      ...auditActor(req),
+      action: 'assignment.export',
+      eventId: event._id as mongoose.Types.ObjectId,
+      details: { format: req.query.format || 'csv', fields: req.query.fields },
+    });
+  } catch (error) {
+    if (error instanceof ExportError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
 
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader(
-      'Content-Disposition',
-      `attachment; filename="secret-santa-${event.name}-assignments.csv"`
+    console.error('Export assignments error:', error);
+    res.status(500).json({ message: 'Error exporting assignments' });
+  }
+};
+
+// Printable gift tags, one per receiver label (organisers only)
+export const getGiftTags = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    if (!hasAssignments(event)) {
+      res.status(400).json({
+        message: 'Assignments have not been completed yet',
+      });
+      return;
+    }
+
+    if (isSealed(event)) {
+      res.status(403).json({ message: SEALED_MESSAGE });
+      return;
+    }
+
+    const assignments = await getAllAssignments(
+      event._id as mongoose.Types.ObjectId,
+      event.labelScheme
     );
-    res.send(csv);
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'assignment.print',
+      eventId: event._id as mongoose.Types.ObjectId,
+      details: { sheet: 'tags' },
+    });
+
+    res.type('html').send(renderGiftTags(event, assignments));
   } catch (error) {
-    console.error('Export CSV error:', error);
-    res.status(500).json({ message: 'Error exporting assignments' });
+    console.error('Gift tags error:', error);
+    res.status(500).json({ message: 'Error rendering gift tags' });
+  }
+};
+
+// Printable host master list of labels and receivers (organisers only)
+export const getMasterList = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    if (!hasAssignments(event)) {
+      res.status(400).json({
+        message: 'Assignments have not been completed yet',
+      });
+      return;
+    }
+
+    if (isSealed(event)) {
+      res.status(403).json({ message: SEALED_MESSAGE });
+      return;
+    }
+
+    const assignments = await getAllAssignments(
+      event._id as mongoose.Types.ObjectId,
+      event.labelScheme
+    );
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'assignment.print',
+      eventId: event._id as mongoose.Types.ObjectId,
+      details: { sheet: 'master-list' },
+    });
+
+    res.type('html').send(renderMasterList(event, assignments));
+  } catch (error) {
+    console.error('Master list error:', error);
+    res.status(500).json({ message: 'Error rendering master list' });
+  }
+};
+
+// Re-run the draw from its stored seed and compare with saved assignments (organisers only)
+export const verifyAssignments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const result = await verifyDraw(event._id as mongoose.Types.ObjectId);
+    if (!result) {
+      res.status(400).json({ message: 'This event has no recorded draw' });
+      return;
+    }
+
+    res.json(
+      isSealed(event) ? { ...result, receipt: sealedReceipt(result.receipt) } : result
+    );
+  } catch (error) {
+    console.error('Verify assignments error:', error);
+    res.status(500).json({ message: 'Error verifying assignments' });
   }
 };
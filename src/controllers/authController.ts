@@ -1,9 +1,34 @@
 import { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User';
+import Participant from '../models/Participant';
 import { hashPassword, comparePassword } from '../utils/password';
-import { generateToken } from '../utils/jwt';
 import config from '../config';
+import {
+  createSession,
+  listSessions,
+  refreshSession,
+  revokeAllSessions,
+  revokeRefreshToken,
+  revokeSession,
+  SessionError,
+  SessionTokens,
+} from '../services/sessions';
+import {
+  AccountError,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+} from '../services/account';
+import {
+  assertNotLockedOut,
+  clearLoginFailures,
+  LockoutError,
+  recordLoginFailure,
+} from '../services/rateLimit';
+import { ensureCsrfToken } from '../middleware/csrf';
 import passport from '../config/passport';
 
 // Validation rules
@@ -20,6 +45,81 @@ export const loginValidation = [
   body('password').notEmpty().withMessage('Password is required'),
 ];
 
+export const tokenValidation = [
+  body('grantType')
+    .isIn(['password', 'refresh_token'])
+    .withMessage('Grant type must be password or refresh_token'),
+  body('email')
+    .if(body('grantType').equals('password'))
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Valid email is required'),
+  body('password')
+    .if(body('grantType').equals('password'))
+    .notEmpty()
+    .withMessage('Password is required'),
+  body('refreshToken')
+    .if(body('grantType').equals('refresh_token'))
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required'),
+];
+
+export const verifyEmailValidation = [
+  body('token').isString().notEmpty().withMessage('Token is required'),
+];
+
+export const forgotPasswordValidation = [
+  body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+];
+
+export const resetPasswordValidation = [
+  body('token').isString().notEmpty().withMessage('Token is required'),
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters'),
+];
+
+export const changePasswordValidation = [
+  body('currentPassword').optional().isString(),
+  body('newPassword')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters'),
+];
+
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+const clientInfo = (req: Request) => ({
+  userAgent: req.get('user-agent'),
+  ip: req.ip,
+});
+
+/**
+ * Short-lived access token for every request, refresh token only sent to /api/auth
+ */
+const setAuthCookies = (res: Response, tokens: SessionTokens): void => {
+  const options = {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'lax' as const,
+  };
+
+  res.cookie('token', tokens.accessToken, {
+    ...options,
+    maxAge: config.accessTokenTtlMinutes * 60 * 1000,
+  });
+  res.cookie('refreshToken', tokens.refreshToken, {
+    ...options,
+    path: REFRESH_COOKIE_PATH,
+    maxAge: config.refreshTokenTtlDays * 24 * 60 * 60 * 1000,
+  });
+};
+
+const clearAuthCookies = (res: Response): void => {
+  res.clearCookie('token');
+  res.clearCookie('refreshToken', { path: REFRESH_COOKIE_PATH });
+};
+
 // Register new user
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -49,20 +149,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       role: 'user',
     });
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
-
-    // Set cookie
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: config.nodeEnv === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    });
+    setAuthCookies(res, await createSession(user, clientInfo(req)));
+    await sendEmailVerification(user);
 
     res.status(201).json({
       user: {
@@ -70,6 +158,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         name: user.name,
         email: user.email,
         role: user.role,
+        emailVerified: false,
       },
     });
   } catch (error) {
@@ -78,6 +167,31 @@ export const register = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * The user if the password is right, null if not. Wrong passwords count
+ * towards a lockout, which is thrown as a LockoutError.
+ */
+const checkPassword = async (email: string, password: string, ip?: string) => {
+  await assertNotLockedOut(email);
+
+  // Find user with password
+  const user = await User.findOne({ email }).select('+passwordHash');
+  if (!user || !user.passwordHash) {
+    await recordLoginFailure(email, { ip });
+    return null;
+  }
+
+  // Verify password
+  const isMatch = await comparePassword(password, user.passwordHash);
+  if (!isMatch) {
+    await recordLoginFailure(email, { userId: user._id, ip });
+    return null;
+  }
+
+  await clearLoginFailures(email);
+  return user;
+};
+
 // Login user
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -89,34 +203,13 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
     const { email, password } = req.body;
 
-    // Find user with password
-    const user = await User.findOne({ email }).select('+passwordHash');
-    if (!user || !user.passwordHash) {
-      res.status(401).json({ message: 'Invalid email or password' });
-      return;
-    }
-
-    // Verify password
-    const isMatch = await comparePassword(password, user.passwordHash);
-    if (!isMatch) {
+    const user = await checkPassword(email, password, req.ip);
+    if (!user) {
       res.status(401).json({ message: 'Invalid email or password' });
       return;
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
-
-    // Set cookie
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: config.nodeEnv === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    });
+    setAuthCookies(res, await createSession(user, clientInfo(req)));
 
     res.json({
       user: {
@@ -124,33 +217,70 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         name: user.name,
         email: user.email,
         role: user.role,
+        emailVerified: !!user.emailVerifiedAt,
       },
     });
   } catch (error) {
+    if (error instanceof LockoutError) {
+      res.set('Retry-After', String(error.retryAfterSeconds));
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
     console.error('Login error:', error);
     res.status(500).json({ message: 'Error logging in' });
   }
 };
 
+// Tokens in the response body instead of cookies, for scripts using Authorization: Bearer
+export const issueTokens = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    let tokens: SessionTokens;
+    if (req.body.grantType === 'refresh_token') {
+      tokens = await refreshSession(req.body.refreshToken, clientInfo(req));
+    } else {
+      const user = await checkPassword(req.body.email, req.body.password, req.ip);
+      if (!user) {
+        res.status(401).json({ message: 'Invalid email or password' });
+        return;
+      }
+      tokens = await createSession(user, clientInfo(req));
+    }
+
+    res.json({
+      tokenType: 'Bearer',
+      accessToken: tokens.accessToken,
+      expiresIn: config.accessTokenTtlMinutes * 60,
+      refreshToken: tokens.refreshToken,
+    });
+  } catch (error) {
+    if (error instanceof LockoutError) {
+      res.set('Retry-After', String(error.retryAfterSeconds));
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+    if (error instanceof SessionError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Issue tokens error:', error);
+    res.status(500).json({ message: 'Error issuing tokens' });
+  }
+};
+
 // Google OAuth callback
 export const googleCallback = async (req: Request, res: Response): Promise<void> => {
   try {
     const user = req.user as any;
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
-
-    // Set cookie
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: config.nodeEnv === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    });
+    setAuthCookies(res, await createSession(user, clientInfo(req)));
 
     // Redirect to frontend
     res.redirect(`${config.clientUrl}/dashboard`);
@@ -160,12 +290,246 @@ export const googleCallback = async (req: Request, res: Response): Promise<void>
   }
 };
 
-// Logout user
+// Swap the refresh token cookie for new access and refresh tokens
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const refreshToken = req.cookies.refreshToken;
+    if (!refreshToken) {
+      res.status(401).json({ message: 'Refresh token required' });
+      return;
+    }
+
+    setAuthCookies(res, await refreshSession(refreshToken, clientInfo(req)));
+    res.json({ message: 'Session refreshed' });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      clearAuthCookies(res);
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Refresh error:', error);
+    res.status(500).json({ message: 'Error refreshing session' });
+  }
+};
+
+// Logout user (ends this device's session)
 export const logout = async (req: Request, res: Response): Promise<void> => {
-  res.clearCookie('token');
+  try {
+    if (req.cookies.refreshToken) {
+      await revokeRefreshToken(req.cookies.refreshToken);
+    }
+  } catch (error) {
+    console.error('Logout error:', error);
+  }
+
+  clearAuthCookies(res);
   res.json({ message: 'Logged out successfully' });
 };
 
+// List my active sessions
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const sessions = await listSessions(req.user.userId);
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        device: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session._id?.toString() === req.user!.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Error fetching sessions' });
+  }
+};
+
+// Revoke one of my sessions
+export const deleteSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { sessionId } = req.params;
+
+    if (!(await revokeSession(req.user.userId, sessionId))) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+
+    if (sessionId === req.user.sessionId) {
+      clearAuthCookies(res);
+    }
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Error revoking session' });
+  }
+};
+
+// Revoke all of my sessions, signing out every device including this one
+export const deleteAllSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const revoked = await revokeAllSessions(req.user.userId);
+
+    clearAuthCookies(res);
+    res.json({ message: 'All sessions revoked', revoked });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ message: 'Error revoking sessions' });
+  }
+};
+
+// Confirm an email address from the link in the verification email
+export const confirmEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const user = await verifyEmail(req.body.token);
+
+    res.json({ message: 'Email verified', email: user.email });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Verify email error:', error);
+    res.status(500).json({ message: 'Error verifying email' });
+  }
+};
+
+// Send a new verification email to the current user
+export const resendVerification = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (user.emailVerifiedAt) {
+      res.status(400).json({ message: 'Email is already verified' });
+      return;
+    }
+
+    await sendEmailVerification(user);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ message: 'Error sending verification email' });
+  }
+};
+
+// Email a password reset link; answers the same whether or not the account exists
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    await requestPasswordReset(req.body.email);
+
+    res.json({
+      message: 'If an account exists for that email, a reset link has been sent',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ message: 'Error requesting password reset' });
+  }
+};
+
+// Set a new password with a reset token (signs out every session)
+export const confirmPasswordReset = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    await resetPassword(req.body.token, req.body.password);
+
+    clearAuthCookies(res);
+    res.json({ message: 'Password has been reset' });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Reset password error:', error);
+    res.status(500).json({ message: 'Error resetting password' });
+  }
+};
+
+// Change my password (signs out my other sessions)
+export const updatePassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    await changePassword(
+      req.user.userId,
+      req.body.currentPassword,
+      req.body.newPassword,
+      req.user.sessionId
+    );
+
+    res.json({ message: 'Password changed' });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Change password error:', error);
+    res.status(500).json({ message: 'Error changing password' });
+  }
+};
+
+// CSRF token to send back in the X-CSRF-Token header of state-changing requests
+export const getCsrfToken = (req: Request, res: Response): void => {
+  res.json({ csrfToken: ensureCsrfToken(req, res) });
+};
+
 // Get current user
 export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -180,14 +544,17 @@ export const getCurrentUser = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const memberships = await Participant.find({ userId: user._id }).select('eventId');
+
     res.json({
       user: {
         id: user._id,
         name: user.name,
         email: user.email,
         role: user.role,
+        emailVerified: !!user.emailVerifiedAt,
         wishlist: user.wishlist,
-        eventId: user.eventId,
+        eventIds: memberships.map((m) => m.eventId),
       },
     });
   } catch (error) {
@@ -1,10 +1,37 @@
 import { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import Event from '../models/Event';
-import User from '../models/User';
-import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import Event, { ASSIGNMENT_MODES, EVENT_STATUSES, LABEL_SCHEMES } from '../models/Event';
+import EventTransition from '../models/EventTransition';
+import Participant from '../models/Participant';
+import User, { IWishlistItem, PopulatedUser } from '../models/User';
+import {
+  addParticipant,
+  assertRegistrationOpen,
+  JoinEventError,
+} from '../services/participation';
+import { scheduleEventJobs } from '../services/scheduler';
+import { withdrawParticipant, WithdrawalError } from '../services/withdrawal';
+import { canManageEvent } from '../middleware/auth';
+import {
+  EventTransitionError,
+  hasAssignments,
+  transitionEvent,
+} from '../services/eventLifecycle';
+import {
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportError,
+  ExportFormat,
+  sendExport,
+} from '../services/export';
+import { ImportError, importParticipants } from '../services/participantImport';
+import { auditActor, recordAudit } from '../services/audit';
 
 // Validation rules
+export const addOrganiserValidation = [
+  body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+];
+
 export const createEventValidation = [
   body('name').trim().notEmpty().withMessage('Event name is required'),
   body('budgetLimit')
@@ -21,6 +48,43 @@ export const createEventValidation = [
       }
       return true;
     }),
+  body('drawAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Valid date is required')
+    .custom((value, { req }) => {
+      if (new Date(value) < new Date(req.body.registrationDeadline)) {
+        throw new Error('Draw time cannot be before the registration deadline');
+      }
+      return true;
+    }),
+  body('revealAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Valid date is required')
+    .custom((value, { req }) => {
+      if (new Date(value) < new Date(req.body.registrationDeadline)) {
+        throw new Error('Reveal time cannot be before the registration deadline');
+      }
+      return true;
+    }),
+  body('assignmentMode')
+    .optional()
+    .isIn(ASSIGNMENT_MODES)
+    .withMessage('Invalid assignment mode'),
+  body('joinPolicy')
+    .optional()
+    .isIn(['open', 'invite-only'])
+    .withMessage('Join policy must be open or invite-only'),
+  body('labelScheme')
+    .optional()
+    .isIn(LABEL_SCHEMES)
+    .withMessage('Label scheme must be numeric, words or emoji'),
+  body('sealed')
+    .optional()
+    .isBoolean()
+    .withMessage('Sealed must be true or false')
+    .toBoolean(),
 ];
 
 export const updateEventValidation = [
@@ -35,21 +99,94 @@ export const updateEventValidation = [
     .optional()
     .isISO8601()
     .withMessage('Valid date is required'),
-  body('status')
+  // null clears a scheduled draw
+  body('drawAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Valid date is required'),
+  // null clears a scheduled reveal
+  body('revealAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Valid date is required'),
+  body('status').optional().isIn(EVENT_STATUSES).withMessage('Invalid status'),
+  body('reason')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Reason must be at most 500 characters'),
+  body('assignmentMode')
+    .optional()
+    .isIn(ASSIGNMENT_MODES)
+    .withMessage('Invalid assignment mode'),
+  body('joinPolicy')
+    .optional()
+    .isIn(['open', 'invite-only'])
+    .withMessage('Join policy must be open or invite-only'),
+  body('labelScheme')
+    .optional()
+    .isIn(LABEL_SCHEMES)
+    .withMessage('Label scheme must be numeric, words or emoji'),
+  body('sealed')
     .optional()
-    .isIn(['draft', 'open', 'closed', 'assigned'])
-    .withMessage('Invalid status'),
+    .isBoolean()
+    .withMessage('Sealed must be true or false')
+    .toBoolean(),
+];
+
+// Without a format the participants are returned as usual; with one they are downloaded
+export const getParticipantsValidation = [
+  query('format')
+    .optional()
+    .isIn(EXPORT_FORMATS)
+    .withMessage('Format must be csv, xlsx or json'),
+  query('fields').optional().isString(),
+];
+
+// The CSV is sent as a text/csv body, or as `csv` in a JSON body
+export const importParticipantsValidation = [
+  query('dryRun').optional().isBoolean().withMessage('dryRun must be true or false'),
+  body('csv').optional().isString().withMessage('csv must be a string'),
+];
+
+interface ParticipantRow {
+  id: unknown;
+  name: string;
+  email: string;
+  wishlist: IWishlistItem[];
+  registeredAt: Date;
+}
+
+const PARTICIPANT_EXPORT_COLUMNS: ExportColumn<ParticipantRow>[] = [
+  { key: 'id', header: 'ID', value: (p) => String(p.id) },
+  { key: 'name', header: 'Name', value: (p) => p.name },
+  { key: 'email', header: 'Email', value: (p) => p.email },
+  {
+    key: 'wishlist',
+    header: 'Wishlist',
+    value: (p) => p.wishlist.map((item) => item.title).join('; '),
+  },
+  { key: 'registeredAt', header: 'Registered At', value: (p) => p.registeredAt },
 ];
 
-// Get current event (available to all authenticated users)
+// Get the user's current event: the newest active one they joined or organise
 export const getCurrentEvent = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    // Find the most recent open or assigned event
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { userId } = req.user;
+    const joinedEventIds = await Participant.distinct('eventId', { userId });
+
+    // Any user can create events, so only the user's own count
     const event = await Event.findOne({
       status: { $in: ['open', 'closed', 'assigned'] },
+      $or: [{ _id: { $in: joinedEventIds } }, { ownerId: userId }, { organiserIds: userId }],
     }).sort({ createdAt: -1 });
 
     if (!event) {
@@ -58,7 +195,7 @@ export const getCurrentEvent = async (
     }
 
     // Count participants
-    const participantCount = await User.countDocuments({ eventId: event._id });
+    const participantCount = await Participant.countDocuments({ eventId: event._id });
 
     res.json({
       event: {
@@ -76,7 +213,7 @@ export const getCurrentEvent = async (
   }
 };
 
-// Create new event (admin only)
+// Create new event (any user; the creator becomes its owner)
 export const createEvent = async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -85,13 +222,44 @@ export const createEvent = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const { name, budgetLimit, registrationDeadline } = req.body;
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const {
+      name,
+      budgetLimit,
+      registrationDeadline,
+      drawAt,
+      revealAt,
+      assignmentMode,
+      joinPolicy,
+      labelScheme,
+      sealed,
+    } = req.body;
 
     const event = await Event.create({
       name,
       budgetLimit,
       registrationDeadline: new Date(registrationDeadline),
+      drawAt: drawAt ? new Date(drawAt) : undefined,
+      revealAt: revealAt ? new Date(revealAt) : undefined,
       status: 'open',
+      assignmentMode,
+      joinPolicy,
+      labelScheme,
+      sealed,
+      ownerId: req.user.userId,
+    });
+
+    await scheduleEventJobs(event);
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'event.create',
+      eventId: event._id,
+      details: { name: event.name },
     });
 
     res.status(201).json({
@@ -100,7 +268,17 @@ export const createEvent = async (req: Request, res: Response): Promise<void> =>
         name: event.name,
         budgetLimit: event.budgetLimit,
         registrationDeadline: event.registrationDeadline,
+        drawAt: event.drawAt,
+        revealAt: event.revealAt,
+        revealedAt: event.revealedAt,
         status: event.status,
+        assignmentMode: event.assignmentMode,
+        joinPolicy: event.joinPolicy,
+        labelScheme: event.labelScheme,
+        sealed: event.sealed,
+        unsealedAt: event.unsealedAt,
+        ownerId: event.ownerId,
+        organiserIds: event.organiserIds,
       },
     });
   } catch (error) {
@@ -109,7 +287,7 @@ export const createEvent = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-// Update event (admin only)
+// Update event (organisers only)
 export const updateEvent = async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -119,7 +297,19 @@ export const updateEvent = async (req: Request, res: Response): Promise<void> =>
     }
 
     const { id } = req.params;
-    const { name, budgetLimit, registrationDeadline, status } = req.body;
+    const {
+      name,
+      budgetLimit,
+      registrationDeadline,
+      drawAt,
+      revealAt,
+      status,
+      reason,
+      assignmentMode,
+      joinPolicy,
+      labelScheme,
+      sealed,
+    } = req.body;
 
     const event = await Event.findById(id);
     if (!event) {
@@ -127,14 +317,80 @@ export const updateEvent = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // The draw structure is fixed once assignments exist
+    if (
+      assignmentMode &&
+      assignmentMode !== event.assignmentMode &&
+      hasAssignments(event)
+    ) {
+      res.status(400).json({
+        message: 'Cannot change assignment mode after assignments have been made',
+      });
+      return;
+    }
+
+    // Santas were already told their receiver's label, and tags may be printed
+    if (labelScheme && labelScheme !== event.labelScheme && hasAssignments(event)) {
+      res.status(400).json({
+        message: 'Cannot change the label scheme after assignments have been made',
+      });
+      return;
+    }
+
+    // Once drawn, a seal can only be broken through the audited unseal endpoint
+    if (sealed === false && event.sealed && hasAssignments(event)) {
+      res.status(400).json({
+        message: 'Sealed assignments can only be opened with the unseal endpoint',
+      });
+      return;
+    }
+
     // Update fields
     if (name) event.name = name;
     if (budgetLimit !== undefined) event.budgetLimit = budgetLimit;
     if (registrationDeadline)
       event.registrationDeadline = new Date(registrationDeadline);
-    if (status) event.status = status;
+    if (drawAt !== undefined) event.drawAt = drawAt ? new Date(drawAt) : undefined;
+    if (revealAt !== undefined) event.revealAt = revealAt ? new Date(revealAt) : undefined;
+    if (assignmentMode) event.assignmentMode = assignmentMode;
+    if (joinPolicy) event.joinPolicy = joinPolicy;
+    if (labelScheme) event.labelScheme = labelScheme;
+    if (sealed !== undefined) event.sealed = sealed;
 
-    await event.save();
+    if (event.drawAt && event.drawAt < event.registrationDeadline) {
+      res.status(400).json({
+        message: 'Draw time cannot be before the registration deadline',
+      });
+      return;
+    }
+
+    if (event.revealAt && event.revealAt < event.registrationDeadline) {
+      res.status(400).json({
+        message: 'Reveal time cannot be before the registration deadline',
+      });
+      return;
+    }
+
+    const changes = event.modifiedPaths();
+    const previousStatus = event.status;
+
+    // Status changes go through the state machine and are recorded in the history
+    if (status && status !== event.status) {
+      await transitionEvent(event, status, { actorId: req.user?.userId, reason });
+    } else {
+      await event.save();
+    }
+    await scheduleEventJobs(event);
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'event.update',
+      eventId: event._id,
+      details: {
+        changes,
+        ...(event.status !== previousStatus && { from: previousStatus, to: event.status }),
+      },
+    });
 
     res.json({
       event: {
@@ -142,21 +398,117 @@ export const updateEvent = async (req: Request, res: Response): Promise<void> =>
         name: event.name,
         budgetLimit: event.budgetLimit,
         registrationDeadline: event.registrationDeadline,
+        drawAt: event.drawAt,
+        revealAt: event.revealAt,
+        revealedAt: event.revealedAt,
         status: event.status,
+        assignmentMode: event.assignmentMode,
+        joinPolicy: event.joinPolicy,
+        labelScheme: event.labelScheme,
+        sealed: event.sealed,
+        unsealedAt: event.unsealedAt,
+        ownerId: event.ownerId,
+        organiserIds: event.organiserIds,
       },
     });
   } catch (error) {
+    if (error instanceof EventTransitionError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
     console.error('Update event error:', error);
     res.status(500).json({ message: 'Error updating event' });
   }
 };
 
-// Get event participants (admin only)
+// List events the current user owns or co-organises
+export const getOrganisedEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const events = await Event.find({
+      $or: [{ ownerId: req.user.userId }, { organiserIds: req.user.userId }],
+    }).sort({ createdAt: -1 });
+
+    res.json({
+      events: events.map((event) => ({
+        id: event._id,
+        name: event.name,
+        budgetLimit: event.budgetLimit,
+        registrationDeadline: event.registrationDeadline,
+        status: event.status,
+        isOwner: event.ownerId?.toString() === req.user?.userId,
+      })),
+    });
+  } catch (error) {
+    console.error('Get organised events error:', error);
+    res.status(500).json({ message: 'Error fetching events' });
+  }
+};
+
+// Withdraw a participant (organisers, or participants withdrawing themselves)
+export const withdrawFromEvent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { id, userId } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    if (req.user.userId !== userId && !canManageEvent(event, req.user)) {
+      res.status(403).json({ message: 'Event organiser access required' });
+      return;
+    }
+
+    const { reassignedSantaIds } = await withdrawParticipant(event, userId);
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'participant.remove',
+      eventId: event._id,
+      targetUserId: userId,
+      details: { self: req.user.userId === userId },
+    });
+
+    // Santa ids stay private; organisers only learn how many santas were told
+    res.json({
+      message: 'Participant withdrawn successfully',
+      reassignedCount: reassignedSantaIds.length,
+    });
+  } catch (error) {
+    if (error instanceof WithdrawalError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Withdraw participant error:', error);
+    res.status(500).json({ message: 'Error withdrawing participant' });
+  }
+};
+
+// Get event participants (organisers only)
 export const getEventParticipants = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const { id } = req.params;
 
     const event = await Event.findById(id);
@@ -165,60 +517,118 @@ export const getEventParticipants = async (
       return;
     }
 
-    const participants = await User.find({ eventId: id }).select(
-      'name email wishlist createdAt'
-    );
+    const participants = await Participant.find({ eventId: id })
+      .populate<{ userId: PopulatedUser }>('userId', 'name email')
+      .sort({ joinedAt: 1 });
 
-    res.json({
-      participants: participants.map((p) => ({
-        id: p._id,
-        name: p.name,
-        email: p.email,
+    // Skip memberships whose user has been deleted
+    const rows: ParticipantRow[] = participants
+      .filter((p) => p.userId)
+      .map((p) => ({
+        id: p.userId._id,
+        name: p.userId.name,
+        email: p.userId.email,
         wishlist: p.wishlist,
-        registeredAt: p.createdAt,
-      })),
+        registeredAt: p.joinedAt,
+      }));
+
+    if (req.query.format) {
+      await sendExport(res, {
+        format: req.query.format as ExportFormat,
+        fields: req.query.fields as string | undefined,
+        filename: `secret-santa-${event.name}-participants`,
+        sheetName: 'Participants',
+        columns: PARTICIPANT_EXPORT_COLUMNS,
+        rows,
+      });
+      return;
+    }
+
+    res.json({
+      participants: rows,
     });
   } catch (error) {
+    if (error instanceof ExportError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
     console.error('Get participants error:', error);
     res.status(500).json({ message: 'Error fetching participants' });
   }
 };
 
-// Join event (user joins the current open event)
-export const joinEvent = async (req: Request, res: Response): Promise<void> => {
+// Import participants from CSV, creating accounts as needed (organisers only)
+export const importParticipantsCSV = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.user) {
-      res.status(401).json({ message: 'Not authenticated' });
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const csv = typeof req.body === 'string' ? req.body : req.body?.csv;
+    if (!csv) {
+      res.status(400).json({ message: 'CSV data is required' });
       return;
     }
 
-    // Find the current open event
-    const event = await Event.findOne({ status: 'open' }).sort({ createdAt: -1 });
+    const event = await Event.findById(id);
     if (!event) {
-      res.status(404).json({ message: 'No open event to join' });
+      res.status(404).json({ message: 'Event not found' });
       return;
     }
 
-    // Check if registration deadline has passed
-    if (new Date() > event.registrationDeadline) {
-      res.status(400).json({ message: 'Registration deadline has passed' });
+    const report = await importParticipants(event, csv, {
+      dryRun: req.query.dryRun === 'true',
+    });
+
+    // Imports create accounts and memberships in bulk
+    if (!report.dryRun) {
+      await recordAudit({
+        ...auditActor(req),
+        action: 'participant.import',
+        eventId: event._id,
+        details: { summary: report.summary },
+      });
+    }
+
+    res.status(report.dryRun ? 200 : 201).json(report);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      res.status(error.status).json({ message: error.message });
       return;
     }
 
-    // Update user's eventId
-    const user = await User.findById(req.user.userId);
-    if (!user) {
-      res.status(404).json({ message: 'User not found' });
+    console.error('Import participants error:', error);
+    res.status(500).json({ message: 'Error importing participants' });
+  }
+};
+
+// Join event (user joins the given event)
+export const joinEvent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
       return;
     }
 
-    if (user.eventId?.toString() === event._id.toString()) {
-      res.status(400).json({ message: 'Already joined this event' });
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
       return;
     }
 
-    user.eventId = event._id as mongoose.Types.ObjectId;
-    await user.save();
+    if (event.joinPolicy === 'invite-only') {
+      res.status(403).json({ message: 'This event is invite-only' });
+      return;
+    }
+
+    assertRegistrationOpen(event);
+    await addParticipant(event, req.user.userId);
 
     res.json({
       message: 'Successfully joined event',
@@ -230,7 +640,171 @@ export const joinEvent = async (req: Request, res: Response): Promise<void> => {
       },
     });
   } catch (error) {
+    if (error instanceof JoinEventError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
     console.error('Join event error:', error);
     res.status(500).json({ message: 'Error joining event' });
   }
 };
+
+// List the owner and co-organisers of an event (organisers only)
+export const getOrganisers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id)
+      .populate<{ ownerId?: PopulatedUser }>('ownerId', 'name email')
+      .populate<{ organiserIds: PopulatedUser[] }>('organiserIds', 'name email');
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const owner = event.ownerId;
+
+    res.json({
+      owner: owner ? { id: owner._id, name: owner.name, email: owner.email } : null,
+      organisers: event.organiserIds.map((o) => ({
+        id: o._id,
+        name: o.name,
+        email: o.email,
+      })),
+    });
+  } catch (error) {
+    console.error('Get organisers error:', error);
+    res.status(500).json({ message: 'Error fetching organisers' });
+  }
+};
+
+// Add a co-organiser by email (organisers only)
+export const addOrganiser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { email } = req.body;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const userId = user._id.toString();
+    if (
+      event.ownerId?.toString() === userId ||
+      event.organiserIds.some((o) => o.toString() === userId)
+    ) {
+      res.status(400).json({ message: 'User is already an organiser of this event' });
+      return;
+    }
+
+    event.organiserIds.push(user._id);
+    await event.save();
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'organiser.add',
+      eventId: event._id,
+      targetUserId: user._id,
+    });
+
+    res.status(201).json({
+      organiser: { id: user._id, name: user.name, email: user.email },
+    });
+  } catch (error) {
+    console.error('Add organiser error:', error);
+    res.status(500).json({ message: 'Error adding organiser' });
+  }
+};
+
+// Remove a co-organiser (organisers only; the owner cannot be removed)
+export const removeOrganiser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, userId } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    if (event.ownerId?.toString() === userId) {
+      res.status(400).json({ message: 'The event owner cannot be removed' });
+      return;
+    }
+
+    const remaining = event.organiserIds.filter((o) => o.toString() !== userId);
+    if (remaining.length === event.organiserIds.length) {
+      res.status(404).json({ message: 'Organiser not found' });
+      return;
+    }
+
+    event.organiserIds = remaining;
+    await event.save();
+
+    await recordAudit({
+      ...auditActor(req),
+      action: 'organiser.remove',
+      eventId: event._id,
+      targetUserId: userId,
+    });
+
+    res.json({ message: 'Organiser removed successfully' });
+  } catch (error) {
+    console.error('Remove organiser error:', error);
+    res.status(500).json({ message: 'Error removing organiser' });
+  }
+};
+
+// Status change history, oldest first (organisers only)
+export const getEventHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const transitions = await EventTransition.find({ eventId: id })
+      .populate<{ actorId?: PopulatedUser }>('actorId', 'name email')
+      .sort({ createdAt: 1 });
+
+    res.json({
+      status: event.status,
+      history: transitions.map((t) => ({
+        id: t._id,
+        from: t.from,
+        to: t.to,
+        // No actor means the scheduler made the change
+        actor: t.actorId
+          ? {
+              id: t.actorId._id,
+              name: t.actorId.name,
+              email: t.actorId.email,
+            }
+          : null,
+        reason: t.reason,
+        at: t.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Get event history error:', error);
+    res.status(500).json({ message: 'Error fetching event history' });
+  }
+};
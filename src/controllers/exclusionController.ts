@@ -0,0 +1,267 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Event from '../models/Event';
+import Participant from '../models/Participant';
+import Assignment from '../models/Assignment';
+import Exclusion, { IExclusion } from '../models/Exclusion';
+import { canManageEvent } from '../middleware/auth';
+import { isSealed, SEALED_MESSAGE } from '../services/sealing';
+
+// Validation rules
+export const createExclusionValidation = [
+  body('type')
+    .isIn(['couple', 'team', 'pair'])
+    .withMessage('Type must be one of couple, team or pair'),
+  body('userIds')
+    .isArray({ min: 2 })
+    .withMessage('At least 2 users are required')
+    .custom((value, { req }) => {
+      if (req.body.type !== 'team' && value.length !== 2) {
+        throw new Error('Couples and pairs need exactly 2 users');
+      }
+      if (new Set(value).size !== value.length) {
+        throw new Error('Users must be distinct');
+      }
+      return true;
+    }),
+  body('userIds.*').isMongoId().withMessage('Invalid user ID'),
+  body('label').optional().isString(),
+];
+
+export const updateExclusionValidation = [
+  body('userIds')
+    .optional()
+    .isArray({ min: 2 })
+    .withMessage('At least 2 users are required')
+    .custom((value) => {
+      if (new Set(value).size !== value.length) {
+        throw new Error('Users must be distinct');
+      }
+      return true;
+    }),
+  body('userIds.*').optional().isMongoId().withMessage('Invalid user ID'),
+  body('label').optional().isString(),
+];
+
+export const importExclusionsValidation = [
+  body('sourceEventId').isMongoId().withMessage('Valid source event ID is required'),
+];
+
+const formatExclusion = (exclusion: IExclusion) => ({
+  id: exclusion._id,
+  type: exclusion.type,
+  userIds: exclusion.userIds,
+  label: exclusion.label,
+  createdAt: exclusion.createdAt,
+});
+
+/**
+ * Returns the ids from the list that are not participants of the event
+ */
+const findNonParticipants = async (
+  eventId: string,
+  userIds: string[]
+): Promise<string[]> => {
+  const participants = await Participant.find({ eventId, userId: { $in: userIds } });
+  const found = new Set(participants.map((p) => p.userId.toString()));
+  return userIds.filter((id) => !found.has(id));
+};
+
+// List exclusion rules for an event (organisers only)
+export const getExclusions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const exclusions = await Exclusion.find({ eventId: id }).sort({ createdAt: 1 });
+
+    res.json({
+      exclusions: exclusions.map(formatExclusion),
+    });
+  } catch (error) {
+    console.error('Get exclusions error:', error);
+    res.status(500).json({ message: 'Error fetching exclusions' });
+  }
+};
+
+// Create exclusion rule (organisers only)
+export const createExclusion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { type, userIds, label } = req.body;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const missing = await findNonParticipants(id, userIds);
+    if (missing.length > 0) {
+      res.status(400).json({
+        message: 'All users must be participants of this event',
+        userIds: missing,
+      });
+      return;
+    }
+
+    const exclusion = await Exclusion.create({ eventId: id, type, userIds, label });
+
+    res.status(201).json({
+      exclusion: formatExclusion(exclusion),
+    });
+  } catch (error) {
+    console.error('Create exclusion error:', error);
+    res.status(500).json({ message: 'Error creating exclusion' });
+  }
+};
+
+// Update exclusion rule members or label (organisers only)
+export const updateExclusion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, exclusionId } = req.params;
+    const { userIds, label } = req.body;
+
+    const exclusion = await Exclusion.findOne({ _id: exclusionId, eventId: id });
+    if (!exclusion) {
+      res.status(404).json({ message: 'Exclusion not found' });
+      return;
+    }
+
+    if (userIds) {
+      if (exclusion.type !== 'team' && userIds.length !== 2) {
+        res.status(400).json({ message: 'Couples and pairs need exactly 2 users' });
+        return;
+      }
+
+      const missing = await findNonParticipants(id, userIds);
+      if (missing.length > 0) {
+        res.status(400).json({
+          message: 'All users must be participants of this event',
+          userIds: missing,
+        });
+        return;
+      }
+      exclusion.userIds = userIds.map((u: string) => new mongoose.Types.ObjectId(u));
+    }
+    if (label !== undefined) exclusion.label = label;
+
+    await exclusion.save();
+
+    res.json({
+      exclusion: formatExclusion(exclusion),
+    });
+  } catch (error) {
+    console.error('Update exclusion error:', error);
+    res.status(500).json({ message: 'Error updating exclusion' });
+  }
+};
+
+// Delete exclusion rule (organisers only)
+export const deleteExclusion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, exclusionId } = req.params;
+
+    const exclusion = await Exclusion.findOneAndDelete({ _id: exclusionId, eventId: id });
+    if (!exclusion) {
+      res.status(404).json({ message: 'Exclusion not found' });
+      return;
+    }
+
+    res.json({ message: 'Exclusion deleted successfully' });
+  } catch (error) {
+    console.error('Delete exclusion error:', error);
+    res.status(500).json({ message: 'Error deleting exclusion' });
+  }
+};
+
+// Forbid last year's pairs: copy another event's assignments as pair exclusions (organisers only)
+export const importPreviousPairs = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { sourceEventId } = req.body;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    // Reading another event's pairs requires organising that event too
+    const sourceEvent = await Event.findById(sourceEventId);
+    if (!sourceEvent || !canManageEvent(sourceEvent, req.user)) {
+      res.status(404).json({ message: 'Source event not found' });
+      return;
+    }
+
+    // The copied pairs would show who drew whom in a sealed event
+    if (isSealed(sourceEvent)) {
+      res.status(403).json({ message: SEALED_MESSAGE });
+      return;
+    }
+
+    const previous = await Assignment.find({ eventId: sourceEventId });
+    if (previous.length === 0) {
+      res.status(404).json({ message: 'No assignments found for the source event' });
+      return;
+    }
+
+    const participants = await Participant.find({ eventId: id });
+    const participantIds = new Set(participants.map((p) => p.userId.toString()));
+
+    // Only pairs where both people take part again are relevant
+    const pairs = previous.filter(
+      (a) =>
+        participantIds.has(a.santaUserId.toString()) &&
+        participantIds.has(a.receiverUserId.toString())
+    );
+
+    const exclusions = await Exclusion.insertMany(
+      pairs.map((a) => ({
+        eventId: event._id,
+        type: 'pair',
+        userIds: [a.santaUserId, a.receiverUserId],
+        label: 'Previous event pairing',
+      }))
+    );
+
+    res.status(201).json({
+      exclusions: exclusions.map(formatExclusion),
+    });
+  } catch (error) {
+    console.error('Import exclusions error:', error);
+    res.status(500).json({ message: 'Error importing exclusions' });
+  }
+};
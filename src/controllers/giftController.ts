@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Event from '../models/Event';
+import { AssignmentRole, IAssignment } from '../models/Assignment';
+import { findUserAssignment } from '../services/secretSanta';
+import {
+  advanceGiftStatus,
+  getFulfilmentProgress,
+  GiftStatusError,
+} from '../services/fulfilment';
+import { hasAssignments } from '../services/eventLifecycle';
+import { isSealed } from '../services/sealing';
+
+// Validation rules
+export const updateGiftStatusValidation = [
+  body('status')
+    .isIn(['purchased', 'shipped', 'delivered'])
+    .withMessage('Status must be purchased, shipped or delivered'),
+  body('trackingNumber')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Tracking number must be between 1 and 100 characters'),
+];
+
+/**
+ * Load the user's assignment for the given side of the gift.
+ * Sends the error response and returns null if there is none.
+ */
+const loadAssignment = async (
+  req: Request,
+  res: Response,
+  role: AssignmentRole
+): Promise<IAssignment | null> => {
+  if (!req.user) {
+    res.status(401).json({ message: 'Not authenticated' });
+    return null;
+  }
+
+  const event = await Event.findById(req.params.id);
+  if (!event) {
+    res.status(404).json({ message: 'Event not found' });
+    return null;
+  }
+
+  if (!hasAssignments(event)) {
+    res.status(400).json({
+      message: 'Assignments have not been completed yet',
+    });
+    return null;
+  }
+
+  const assignment = await findUserAssignment(req.params.id, req.user.userId, role);
+  if (!assignment) {
+    res.status(404).json({
+      message: 'No assignment found. Make sure you joined the event.',
+    });
+    return null;
+  }
+
+  return assignment;
+};
+
+// Update the status of the gift you are giving (santa side)
+export const updateGiftStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const assignment = await loadAssignment(req, res, 'santa');
+    if (!assignment) return;
+
+    const { status, trackingNumber } = req.body;
+    await advanceGiftStatus(assignment, 'santa', status, trackingNumber);
+
+    res.json({
+      gift: {
+        status: assignment.giftStatus,
+        trackingNumber: assignment.trackingNumber,
+        updatedAt: assignment.giftUpdatedAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof GiftStatusError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Update gift status error:', error);
+    res.status(500).json({ message: 'Error updating gift status' });
+  }
+};
+
+// Get the status of the gift coming to you (receiver side)
+export const getIncomingGift = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const assignment = await loadAssignment(req, res, 'receiver');
+    if (!assignment) return;
+
+    // Tracking numbers are left out: a parcel's origin could identify the santa
+    res.json({
+      gift: {
+        status: assignment.giftStatus,
+        updatedAt: assignment.giftUpdatedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Get incoming gift error:', error);
+    res.status(500).json({ message: 'Error fetching gift status' });
+  }
+};
+
+// Confirm you received your gift (receiver side)
+export const confirmGiftReceived = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const assignment = await loadAssignment(req, res, 'receiver');
+    if (!assignment) return;
+
+    await advanceGiftStatus(assignment, 'receiver', 'received');
+
+    res.json({
+      gift: {
+        status: assignment.giftStatus,
+        updatedAt: assignment.giftUpdatedAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof GiftStatusError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Confirm gift received error:', error);
+    res.status(500).json({ message: 'Error confirming gift' });
+  }
+};
+
+// Gift progress dashboard (organisers only)
+export const getGiftProgress = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    if (!hasAssignments(event)) {
+      res.status(400).json({
+        message: 'Assignments have not been completed yet',
+      });
+      return;
+    }
+
+    const progress = await getFulfilmentProgress(event._id as mongoose.Types.ObjectId);
+
+    // Receiver numbers next to santa names would give a sealed map away, and
+    // so would listing santas in receiver order
+    if (isSealed(event)) {
+      res.json({
+        progress: {
+          ...progress,
+          notStarted: progress.notStarted
+            .map(({ id, name, email }) => ({ id, name, email }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        },
+      });
+      return;
+    }
+
+    res.json({ progress });
+  } catch (error) {
+    console.error('Get gift progress error:', error);
+    res.status(500).json({ message: 'Error fetching gift progress' });
+  }
+};
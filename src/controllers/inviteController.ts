@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import Event from '../models/Event';
+import Invite, { IInvite } from '../models/Invite';
+import config from '../config';
+import { generateInviteCode } from '../utils/random';
+import { generateInviteToken, verifyInviteToken } from '../utils/jwt';
+import {
+  addParticipant,
+  assertRegistrationOpen,
+  JoinEventError,
+} from '../services/participation';
+
+// Validation rules
+export const createInviteValidation = [
+  body('label').optional().isString(),
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Valid date is required')
+    .custom((value) => {
+      if (new Date(value) <= new Date()) {
+        throw new Error('Expiry must be in the future');
+      }
+      return true;
+    }),
+  body('maxUses')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Max uses must be a positive integer'),
+];
+
+const formatInvite = (invite: IInvite) => ({
+  id: invite._id,
+  code: invite.code,
+  // Signed link: works without typing the code and carries its own expiry
+  link: `${config.clientUrl}/invite/${generateInviteToken(
+    { inviteId: invite._id.toString(), eventId: invite.eventId.toString() },
+    invite.expiresAt
+  )}`,
+  label: invite.label,
+  expiresAt: invite.expiresAt,
+  maxUses: invite.maxUses,
+  uses: invite.uses,
+  revoked: invite.revoked,
+  createdAt: invite.createdAt,
+});
+
+/**
+ * Look up an invite from either a short code or a signed invite link token
+ */
+const resolveInvite = async (codeOrToken: string): Promise<IInvite> => {
+  let invite: IInvite | null;
+
+  if (codeOrToken.includes('.')) {
+    let inviteId: string;
+    try {
+      inviteId = verifyInviteToken(codeOrToken).inviteId;
+    } catch (error) {
+      throw new JoinEventError('Invalid or expired invite link');
+    }
+    invite = await Invite.findById(inviteId);
+  } else {
+    invite = await Invite.findOne({ code: codeOrToken.toUpperCase() });
+  }
+
+  if (!invite) {
+    throw new JoinEventError('Invalid invite code', 404);
+  }
+  if (invite.revoked) {
+    throw new JoinEventError('This invite has been revoked');
+  }
+  if (invite.expiresAt && invite.expiresAt < new Date()) {
+    throw new JoinEventError('This invite has expired');
+  }
+  if (invite.maxUses && invite.uses >= invite.maxUses) {
+    throw new JoinEventError('This invite has reached its maximum number of uses');
+  }
+
+  return invite;
+};
+
+// List invites for an event (organisers only)
+export const getInvites = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const invites = await Invite.find({ eventId: id }).sort({ createdAt: -1 });
+
+    res.json({
+      invites: invites.map(formatInvite),
+    });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    res.status(500).json({ message: 'Error fetching invites' });
+  }
+};
+
+// Create invite code and link (organisers only)
+export const createInvite = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { label, expiresAt, maxUses } = req.body;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const invite = await Invite.create({
+      eventId: event._id,
+      code: generateInviteCode(),
+      label,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      maxUses,
+      createdBy: req.user.userId,
+    });
+
+    res.status(201).json({
+      invite: formatInvite(invite),
+    });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    res.status(500).json({ message: 'Error creating invite' });
+  }
+};
+
+// Revoke invite (organisers only)
+export const revokeInvite = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, inviteId } = req.params;
+
+    const invite = await Invite.findOneAndUpdate(
+      { _id: inviteId, eventId: id },
+      { revoked: true },
+      { new: true }
+    );
+    if (!invite) {
+      res.status(404).json({ message: 'Invite not found' });
+      return;
+    }
+
+    res.json({
+      invite: formatInvite(invite),
+    });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    res.status(500).json({ message: 'Error revoking invite' });
+  }
+};
+
+// Join an event with an invite code or signed invite link token
+export const joinWithInvite = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const invite = await resolveInvite(req.params.code);
+
+    const event = await Event.findById(invite.eventId);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    assertRegistrationOpen(event);
+
+    // Reserve a use atomically so concurrent joins cannot exceed maxUses
+    const reserved = await Invite.findOneAndUpdate(
+      {
+        _id: invite._id,
+        ...(invite.maxUses && { uses: { $lt: invite.maxUses } }),
+      },
+      { $inc: { uses: 1 } }
+    );
+    if (!reserved) {
+      throw new JoinEventError('This invite has reached its maximum number of uses');
+    }
+
+    try {
+      await addParticipant(event, req.user.userId);
+    } catch (error) {
+      await Invite.updateOne({ _id: invite._id }, { $inc: { uses: -1 } });
+      throw error;
+    }
+
+    res.json({
+      message: 'Successfully joined event',
+      event: {
+        id: event._id,
+        name: event.name,
+        budgetLimit: event.budgetLimit,
+        registrationDeadline: event.registrationDeadline,
+      },
+    });
+  } catch (error) {
+    if (error instanceof JoinEventError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Join with invite error:', error);
+    res.status(500).json({ message: 'Error joining event' });
+  }
+};
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import Event from '../models/Event';
+import LateJoinRequest, { ILateJoinRequest } from '../models/LateJoinRequest';
+import { PopulatedUser } from '../models/User';
+import { approveLateJoin, LateJoinError, requestLateJoin } from '../services/lateJoin';
+import { JoinEventError } from '../services/participation';
+
+// Validation rules
+export const requestLateJoinValidation = [
+  body('message')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Message must be at most 500 characters'),
+];
+
+// The user may be an id or populated, as in `getLateJoinRequests`
+const formatRequest = (request: Omit<ILateJoinRequest, 'userId'> & { userId: unknown }) => ({
+  id: request._id,
+  userId: request.userId,
+  status: request.status,
+  message: request.message,
+  decidedAt: request.decidedAt,
+  createdAt: request.createdAt,
+});
+
+// Ask to join an event after names were drawn
+export const createLateJoinRequest = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const event = await Event.findById(req.params.id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const request = await requestLateJoin(event, req.user.userId, req.body.message);
+
+    res.status(201).json({
+      message: 'Request sent to the organisers',
+      request: formatRequest(request),
+    });
+  } catch (error) {
+    if (error instanceof LateJoinError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Create late join request error:', error);
+    res.status(500).json({ message: 'Error requesting to join' });
+  }
+};
+
+// List late join requests, newest first (organisers only)
+export const getLateJoinRequests = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requests = await LateJoinRequest.find({ eventId: req.params.id })
+      .populate<{ userId: PopulatedUser }>('userId', 'name email')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      // Skip requests whose user has been deleted
+      requests: requests
+        .filter((request) => request.userId)
+        .map((request) => ({
+          ...formatRequest(request),
+          userId: request.userId._id,
+          user: { name: request.userId.name, email: request.userId.email },
+        })),
+    });
+  } catch (error) {
+    console.error('Get late join requests error:', error);
+    res.status(500).json({ message: 'Error fetching late join requests' });
+  }
+};
+
+// Approve a late join and splice the user into the draw (organisers only)
+export const approveLateJoinRequest = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { id, requestId } = req.params;
+
+    const event = await Event.findById(id);
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    const request = await LateJoinRequest.findOne({ _id: requestId, eventId: id });
+    if (!request) {
+      res.status(404).json({ message: 'Late join request not found' });
+      return;
+    }
+
+    await approveLateJoin(event, request, req.user.userId);
+
+    res.json({
+      message: 'Participant added to the draw',
+      request: formatRequest(request),
+    });
+  } catch (error) {
+    if (error instanceof LateJoinError || error instanceof JoinEventError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
+
+    console.error('Approve late join error:', error);
+    res.status(500).json({ message: 'Error approving late join' });
+  }
+};
+
+// Reject a late join (organisers only)
+export const rejectLateJoinRequest = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const { id, requestId } = req.params;
+
+    const request = await LateJoinRequest.findOneAndUpdate(
+      { _id: requestId, eventId: id, status: 'pending' },
+      { status: 'rejected', decidedBy: req.user.userId, decidedAt: new Date() },
+      { new: true }
+    );
+    if (!request) {
+      res.status(404).json({ message: 'No pending late join request found' });
+      return;
+    }
+
+    res.json({
+      request: formatRequest(request),
+    });
+  } catch (error) {
+    console.error('Reject late join error:', error);
+    res.status(500).json({ message: 'Error rejecting late join' });
+  }
+};
@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import Event, { IEvent } from '../models/Event';
+import { AssignmentRole, IAssignment } from '../models/Assignment';
+import { countUnread, getThread, sendMessage } from '../services/messaging';
+import { findUserAssignment } from '../services/secretSanta';
+import { hasAssignments } from '../services/eventLifecycle';
+
+// Validation rules
+export const sendMessageValidation = [
+  body('body')
+    .trim()
+    .notEmpty()
+    .withMessage('Message cannot be empty')
+    .isLength({ max: 2000 })
+    .withMessage('Message must be at most 2000 characters'),
+];
+
+interface Thread {
+  event: IEvent;
+  assignment: IAssignment;
+}
+
+/**
+ * Load the event and assignment behind the user's thread for the given role.
+ * Sends the error response and returns null if there is no thread.
+ */
+const loadThread = async (
+  req: Request,
+  res: Response,
+  role: AssignmentRole
+): Promise<Thread | null> => {
+  if (!req.user) {
+    res.status(401).json({ message: 'Not authenticated' });
+    return null;
+  }
+
+  const event = await Event.findById(req.params.id);
+  if (!event) {
+    res.status(404).json({ message: 'Event not found' });
+    return null;
+  }
+
+  if (!hasAssignments(event)) {
+    res.status(400).json({
+      message: 'Assignments have not been completed yet',
+    });
+    return null;
+  }
+
+  const assignment = await findUserAssignment(req.params.id, req.user.userId, role);
+  if (!assignment) {
+    res.status(404).json({
+      message: 'No assignment found. Make sure you joined the event.',
+    });
+    return null;
+  }
+
+  return { event, assignment };
+};
+
+// Get messages with your receiver (santa side)
+export const getReceiverThread = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const thread = await loadThread(req, res, 'santa');
+    if (!thread) return;
+
+    res.json(await getThread(thread.assignment, 'santa', thread.event.labelScheme));
+  } catch (error) {
+    console.error('Get receiver messages error:', error);
+    res.status(500).json({ message: 'Error fetching messages' });
+  }
+};
+
+// Send a message to your receiver (santa side)
+export const messageReceiver = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const thread = await loadThread(req, res, 'santa');
+    if (!thread) return;
+
+    res.status(201).json({
+      message: await sendMessage(
+        thread.assignment,
+        'santa',
+        req.body.body,
+        thread.event.labelScheme
+      ),
+    });
+  } catch (error) {
+    console.error('Send receiver message error:', error);
+    res.status(500).json({ message: 'Error sending message' });
+  }
+};
+
+// Get messages with your santa (receiver side)
+export const getSantaThread = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const thread = await loadThread(req, res, 'receiver');
+    if (!thread) return;
+
+    res.json(await getThread(thread.assignment, 'receiver', thread.event.labelScheme));
+  } catch (error) {
+    console.error('Get santa messages error:', error);
+    res.status(500).json({ message: 'Error fetching messages' });
+  }
+};
+
+// Reply to your santa (receiver side)
+export const messageSanta = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const thread = await loadThread(req, res, 'receiver');
+    if (!thread) return;
+
+    res.status(201).json({
+      message: await sendMessage(
+        thread.assignment,
+        'receiver',
+        req.body.body,
+        thread.event.labelScheme
+      ),
+    });
+  } catch (error) {
+    console.error('Send santa message error:', error);
+    res.status(500).json({ message: 'Error sending message' });
+  }
+};
+
+// Unread message counts for both of the user's threads
+export const getUnreadCounts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    res.json({
+      unread: await countUnread(req.params.id, req.user.userId),
+    });
+  } catch (error) {
+    console.error('Get unread counts error:', error);
+    res.status(500).json({ message: 'Error fetching unread counts' });
+  }
+};
@@ -1,15 +1,46 @@
 import { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User';
-import Event from '../models/Event';
+import Participant, { IParticipant } from '../models/Participant';
+import { IEvent } from '../models/Event';
+
+type MembershipEvent = Pick<
+  IEvent,
+  '_id' | 'name' | 'budgetLimit' | 'registrationDeadline' | 'status'
+>;
 
 // Validation rules
 export const updateProfileValidation = [
   body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
-  body('wishlist.wishText').optional().isString(),
-  body('wishlist.link').optional().isURL().withMessage('Must be a valid URL'),
 ];
 
+/**
+ * List a user's memberships with the event details attached
+ */
+const findMemberships = async (userId: string) => {
+  const memberships = await Participant.find({ userId })
+    .populate<{ eventId: MembershipEvent }>('eventId', 'name budgetLimit registrationDeadline status')
+    .sort({ joinedAt: -1 });
+
+  // Skip memberships whose event has been deleted
+  return memberships.filter((m) => m.eventId);
+};
+
+const formatMembership = (
+  membership: Omit<IParticipant, 'eventId'> & { eventId: MembershipEvent }
+) => {
+  const event = membership.eventId;
+  return {
+    id: event._id,
+    name: event.name,
+    budgetLimit: event.budgetLimit,
+    registrationDeadline: event.registrationDeadline,
+    status: event.status,
+    joinedAt: membership.joinedAt,
+    wishlist: membership.wishlist,
+  };
+};
+
 // Get current user profile
 export const getProfile = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -18,12 +49,14 @@ export const getProfile = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const user = await User.findById(req.user.userId).populate('eventId');
+    const user = await User.findById(req.user.userId);
     if (!user) {
       res.status(404).json({ message: 'User not found' });
       return;
     }
 
+    const memberships = await findMemberships(req.user.userId);
+
     res.json({
       user: {
         id: user._id,
@@ -31,7 +64,7 @@ export const getProfile = async (req: Request, res: Response): Promise<void> =>
         email: user.email,
         role: user.role,
         wishlist: user.wishlist,
-        event: user.eventId,
+        events: memberships.map(formatMembership),
       },
     });
   } catch (error) {
@@ -40,7 +73,7 @@ export const getProfile = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-// Update user profile and wishlist
+// Update user profile (wishlists are managed through the wishlist item routes)
 export const updateProfile = async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -54,7 +87,7 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const { name, wishlist } = req.body;
+    const { name } = req.body;
 
     const user = await User.findById(req.user.userId);
     if (!user) {
@@ -62,28 +95,8 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Check if registration is still open
-    if (user.eventId) {
-      const event = await Event.findById(user.eventId);
-      if (event && event.status === 'assigned') {
-        // Can still update name, but not wishlist after assignment
-        if (wishlist) {
-          res.status(400).json({
-            message: 'Cannot update wishlist after assignments have been made',
-          });
-          return;
-        }
-      }
-    }
-
     // Update fields
     if (name) user.name = name;
-    if (wishlist) {
-      user.wishlist = {
-        wishText: wishlist.wishText || user.wishlist.wishText,
-        link: wishlist.link || user.wishlist.link,
-      };
-    }
 
     await user.save();
 
@@ -101,3 +114,22 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
     res.status(500).json({ message: 'Error updating profile' });
   }
 };
+
+// List every event the current user belongs to
+export const getMyEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return;
+    }
+
+    const memberships = await findMemberships(req.user.userId);
+
+    res.json({
+      events: memberships.map(formatMembership),
+    });
+  } catch (error) {
+    console.error('Get my events error:', error);
+    res.status(500).json({ message: 'Error fetching events' });
+  }
+};
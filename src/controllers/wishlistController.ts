@@ -0,0 +1,289 @@
+import { Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import User, { IWishlistItem, WISHLIST_PRIORITIES } from '../models/User';
+import Event, { IEvent } from '../models/Event';
+import Participant from '../models/Participant';
+import { hasAssignments } from '../services/eventLifecycle';
+
+const MAX_WISHLIST_ITEMS = 50;
+
+// Validation rules
+// Every route takes an optional ?eventId= to edit that event's wishlist
+// instead of the profile wishlist new events start from
+const eventIdQuery = query('eventId')
+  .optional()
+  .isMongoId()
+  .withMessage('Invalid event ID');
+
+export const wishlistQueryValidation = [eventIdQuery];
+
+const itemFieldsValidation = [
+  body('description').optional().isString().isLength({ max: 1000 }),
+  body('url').optional({ values: 'falsy' }).isURL().withMessage('Must be a valid URL'),
+  body('estimatedPrice')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Estimated price must be a positive number'),
+  body('priority')
+    .optional()
+    .isIn(WISHLIST_PRIORITIES)
+    .withMessage('Priority must be high, medium or low'),
+  body('notes').optional().isString().isLength({ max: 500 }),
+];
+
+export const addWishlistItemValidation = [
+  eventIdQuery,
+  body('title')
+    .trim()
+    .notEmpty()
+    .withMessage('Title is required')
+    .isLength({ max: 200 })
+    .withMessage('Title must be at most 200 characters'),
+  ...itemFieldsValidation,
+];
+
+export const updateWishlistItemValidation = [
+  eventIdQuery,
+  body('title')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Title cannot be empty')
+    .isLength({ max: 200 })
+    .withMessage('Title must be at most 200 characters'),
+  ...itemFieldsValidation,
+];
+
+export const reorderWishlistValidation = [
+  eventIdQuery,
+  body('itemIds').isArray().withMessage('itemIds must be an array'),
+  body('itemIds.*').isMongoId().withMessage('Invalid item ID'),
+];
+
+interface WishlistOwner {
+  wishlist: IWishlistItem[];
+  event: IEvent | null;
+  save: () => Promise<unknown>;
+}
+
+/**
+ * Load the wishlist being edited: the profile wishlist, or the user's
+ * wishlist for the event given in ?eventId=. Sends the error response
+ * and returns null if it cannot be edited.
+ */
+const loadWishlist = async (
+  req: Request,
+  res: Response,
+  forUpdate: boolean
+): Promise<WishlistOwner | null> => {
+  if (!req.user) {
+    res.status(401).json({ message: 'Not authenticated' });
+    return null;
+  }
+
+  const eventId = req.query.eventId as string | undefined;
+
+  if (!eventId) {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return null;
+    }
+    return { wishlist: user.wishlist, event: null, save: () => user.save() };
+  }
+
+  const membership = await Participant.findOne({ eventId, userId: req.user.userId });
+  const event = await Event.findById(eventId);
+  if (!membership || !event) {
+    res.status(404).json({ message: 'You have not joined this event' });
+    return null;
+  }
+
+  if (forUpdate && hasAssignments(event)) {
+    res.status(400).json({
+      message: 'Cannot update wishlist after assignments have been made',
+    });
+    return null;
+  }
+
+  return { wishlist: membership.wishlist, event, save: () => membership.save() };
+};
+
+/**
+ * Returns an error message if the price is above the event's budget
+ */
+const checkBudget = (event: IEvent | null, price?: number | null): string | null => {
+  if (event && price !== undefined && price !== null && price > event.budgetLimit) {
+    return `Estimated price exceeds the event budget of ${event.budgetLimit}`;
+  }
+  return null;
+};
+
+const findItemIndex = (wishlist: IWishlistItem[], itemId: string): number =>
+  wishlist.findIndex((item) => item._id?.toString() === itemId);
+
+// Get wishlist items
+export const getWishlistItems = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const owner = await loadWishlist(req, res, false);
+    if (!owner) return;
+
+    res.json({
+      items: owner.wishlist,
+    });
+  } catch (error) {
+    console.error('Get wishlist error:', error);
+    res.status(500).json({ message: 'Error fetching wishlist' });
+  }
+};
+
+// Add wishlist item (appended to the end of the list)
+export const addWishlistItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const owner = await loadWishlist(req, res, true);
+    if (!owner) return;
+
+    const { title, description, url, estimatedPrice, priority, notes } = req.body;
+
+    const budgetError = checkBudget(owner.event, estimatedPrice);
+    if (budgetError) {
+      res.status(400).json({ message: budgetError });
+      return;
+    }
+
+    if (owner.wishlist.length >= MAX_WISHLIST_ITEMS) {
+      res.status(400).json({
+        message: `A wishlist can have at most ${MAX_WISHLIST_ITEMS} items`,
+      });
+      return;
+    }
+
+    owner.wishlist.push({ title, description, url, estimatedPrice, priority, notes });
+    await owner.save();
+
+    res.status(201).json({
+      item: owner.wishlist[owner.wishlist.length - 1],
+    });
+  } catch (error) {
+    console.error('Add wishlist item error:', error);
+    res.status(500).json({ message: 'Error adding wishlist item' });
+  }
+};
+
+// Update wishlist item; fields sent as empty strings or null are cleared
+export const updateWishlistItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const owner = await loadWishlist(req, res, true);
+    if (!owner) return;
+
+    const index = findItemIndex(owner.wishlist, req.params.itemId);
+    if (index === -1) {
+      res.status(404).json({ message: 'Wishlist item not found' });
+      return;
+    }
+
+    const { title, description, url, estimatedPrice, priority, notes } = req.body;
+
+    const budgetError = checkBudget(owner.event, estimatedPrice);
+    if (budgetError) {
+      res.status(400).json({ message: budgetError });
+      return;
+    }
+
+    const item = owner.wishlist[index];
+    if (title !== undefined) item.title = title;
+    if (description !== undefined) item.description = description;
+    if (url !== undefined) item.url = url;
+    if (estimatedPrice !== undefined) item.estimatedPrice = estimatedPrice ?? undefined;
+    if (priority !== undefined) item.priority = priority;
+    if (notes !== undefined) item.notes = notes;
+
+    await owner.save();
+
+    res.json({
+      item,
+    });
+  } catch (error) {
+    console.error('Update wishlist item error:', error);
+    res.status(500).json({ message: 'Error updating wishlist item' });
+  }
+};
+
+// Delete wishlist item
+export const deleteWishlistItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const owner = await loadWishlist(req, res, true);
+    if (!owner) return;
+
+    const index = findItemIndex(owner.wishlist, req.params.itemId);
+    if (index === -1) {
+      res.status(404).json({ message: 'Wishlist item not found' });
+      return;
+    }
+
+    owner.wishlist.splice(index, 1);
+    await owner.save();
+
+    res.json({ message: 'Wishlist item deleted successfully' });
+  } catch (error) {
+    console.error('Delete wishlist item error:', error);
+    res.status(500).json({ message: 'Error deleting wishlist item' });
+  }
+};
+
+// Reorder wishlist; itemIds must list every item exactly once
+export const reorderWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const owner = await loadWishlist(req, res, true);
+    if (!owner) return;
+
+    const { itemIds } = req.body as { itemIds: string[] };
+
+    const current = owner.wishlist.map((item) => item._id?.toString()).sort();
+    if (JSON.stringify([...itemIds].sort()) !== JSON.stringify(current)) {
+      res.status(400).json({ message: 'itemIds must contain every wishlist item once' });
+      return;
+    }
+
+    const reordered = itemIds.map((id) => owner.wishlist[findItemIndex(owner.wishlist, id)]);
+    owner.wishlist.splice(0, owner.wishlist.length, ...reordered);
+    await owner.save();
+
+    res.json({
+      items: owner.wishlist,
+    });
+  } catch (error) {
+    console.error('Reorder wishlist error:', error);
+    res.status(500).json({ message: 'Error reordering wishlist' });
+  }
+};
@@ -1,32 +1,115 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, JwtPayload } from '../utils/jwt';
+import Event, { IEvent } from '../models/Event';
+import { ApiKeyScope } from '../models/ApiKey';
+import { isSessionActive } from '../services/sessions';
+import { API_KEY_PREFIX, verifyApiKey } from '../services/apiKeys';
 
 // Extend Express Request type globally
 declare module 'express-serve-static-core' {
   interface Request {
     user?: JwtPayload;
+    // The API key the request was made with, if any
+    apiKey?: { id: string; scopes: ApiKeyScope[] };
+    // Scope an API key needs for this route; routes without one refuse API keys
+    apiKeyScope?: ApiKeyScope;
   }
 }
 
-export const authenticate = (
+const bearerToken = (req: Request): string | undefined => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') || '');
+  return match?.[1];
+};
+
+/**
+ * Let API keys with `scope` use the route. Goes before `authenticate`.
+ */
+export const apiKeyScope =
+  (scope: ApiKeyScope) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    req.apiKeyScope = scope;
+    next();
+  };
+
+const authenticateApiKey = async (
+  key: string,
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
+  if (!req.apiKeyScope) {
+    res.status(403).json({ message: 'API keys cannot be used for this endpoint' });
+    return;
+  }
+
+  try {
+    const verified = await verifyApiKey(key, req.ip);
+    if (!verified) {
+      res.status(401).json({ message: 'Invalid, expired or revoked API key' });
+      return;
+    }
+
+    const { apiKey, user } = verified;
+    if (!apiKey.scopes.includes(req.apiKeyScope)) {
+      res.status(403).json({ message: `API key is missing the ${req.apiKeyScope} scope` });
+      return;
+    }
+
+    req.user = { userId: user._id.toString(), email: user.email, role: user.role };
+    req.apiKey = { id: apiKey._id.toString(), scopes: apiKey.scopes };
+  } catch (error) {
+    console.error('API key check error:', error);
+    res.status(500).json({ message: 'Error checking API key' });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Accepts an access token from the `token` cookie or an
+ * `Authorization: Bearer` header, or a personal API key in that header
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const bearer = bearerToken(req);
+  if (bearer?.startsWith(API_KEY_PREFIX)) {
+    await authenticateApiKey(bearer, req, res, next);
+    return;
+  }
+
+  let decoded: JwtPayload;
   try {
-    const token = req.cookies.token;
+    const token = bearer || req.cookies.token;
 
     if (!token) {
       res.status(401).json({ message: 'Authentication required' });
       return;
     }
 
-    const decoded = verifyToken(token);
-    req.user = decoded;
-    next();
+    decoded = verifyToken(token);
   } catch (error) {
     res.status(401).json({ message: 'Invalid or expired token' });
+    return;
   }
+
+  try {
+    // Signed out or revoked sessions lose access before their tokens expire
+    if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId))) {
+      res.status(401).json({ message: 'Session has expired or been revoked' });
+      return;
+    }
+  } catch (error) {
+    console.error('Session check error:', error);
+    res.status(500).json({ message: 'Error checking session' });
+    return;
+  }
+
+  req.user = decoded;
+  next();
 };
 
 export const authorizeAdmin = (
@@ -46,3 +129,48 @@ export const authorizeAdmin = (
 
   next();
 };
+
+/**
+ * Owners and co-organisers run an event; global admins can run every event
+ */
+export const canManageEvent = (
+  event: Pick<IEvent, 'ownerId' | 'organiserIds'>,
+  user: JwtPayload
+): boolean => {
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  return (
+    event.ownerId?.toString() === user.userId ||
+    event.organiserIds.some((id) => id.toString() === user.userId)
+  );
+};
+
+export const authorizeEventOrganiser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({ message: 'Authentication required' });
+    return;
+  }
+
+  try {
+    const event = await Event.findById(req.params.id).select('ownerId organiserIds');
+    if (!event) {
+      res.status(404).json({ message: 'Event not found' });
+      return;
+    }
+
+    if (!canManageEvent(event, req.user)) {
+      res.status(403).json({ message: 'Event organiser access required' });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    res.status(404).json({ message: 'Event not found' });
+  }
+};
@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import config from '../config';
+import { csrfTokensMatch, generateCsrfToken, isValidCsrfToken } from '../utils/csrf';
+
+export const CSRF_COOKIE = 'csrfToken';
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// Neither read nor set cookies, so there is nothing to forge
+const EXEMPT_PATHS = ['/auth/token'];
+
+/**
+ * Requests that authenticate with an Authorization header instead of
+ * cookies cannot be forged by another site, so they need no token
+ */
+const isBearerClient = (req: Request): boolean =>
+  /^Bearer\s/i.test(req.get('authorization') || '') && !req.cookies?.token;
+
+/**
+ * The caller's CSRF token, issuing a new cookie if it has none yet
+ */
+export const ensureCsrfToken = (req: Request, res: Response): string => {
+  const existing = req.cookies?.[CSRF_COOKIE];
+  if (isValidCsrfToken(existing)) {
+    return existing;
+  }
+
+  const token = generateCsrfToken();
+  res.cookie(CSRF_COOKIE, token, {
+    httpOnly: true,
+    secure: config.nodeEnv === 'production',
+    sameSite: 'lax',
+  });
+  return token;
+};
+
+/**
+ * Double-submit check for state-changing requests: the X-CSRF-Token
+ * header must repeat the token from the csrfToken cookie. Another site
+ * can make the browser send the cookie but cannot read it or set the header.
+ */
+export const csrfProtection = (req: Request, res: Response, next: NextFunction): void => {
+  if (
+    SAFE_METHODS.includes(req.method) ||
+    EXEMPT_PATHS.includes(req.path) ||
+    isBearerClient(req)
+  ) {
+    next();
+    return;
+  }
+
+  if (!csrfTokensMatch(req.cookies?.[CSRF_COOKIE], req.get(CSRF_HEADER))) {
+    res.status(403).json({ message: 'Invalid or missing CSRF token' });
+    return;
+  }
+
+  next();
+};
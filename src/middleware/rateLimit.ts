@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import config from '../config';
+import { getRateLimitStore, secondsUntil } from '../services/rateLimit';
+import { normalizeEmail } from '../utils/email';
+
+interface RateLimitOptions {
+  // Keeps the counters of different limits apart
+  name: string;
+  windowMs: number;
+  max: number;
+  // What to count by (the client IP by default); requests without one are not limited
+  key?: (req: Request) => string | undefined;
+}
+
+const byIp = (req: Request): string | undefined => req.ip;
+
+// Normalized like the login lockout, so Gmail dot and +tag variants share a counter
+const byEmail = (req: Request): string | undefined =>
+  typeof req.body?.email === 'string' ? normalizeEmail(req.body.email) : undefined;
+
+/**
+ * Allow `max` requests per key in each window, answering 429 with
+ * Retry-After after that
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const keyFor = options.key || byIp;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const id = keyFor(req);
+    if (!id) {
+      next();
+      return;
+    }
+
+    const now = new Date();
+    let counter;
+    try {
+      counter = await getRateLimitStore().increment(
+        `${options.name}:${id}`,
+        options.windowMs,
+        now
+      );
+    } catch (error) {
+      // An unavailable store should not take the API down with it
+      console.error('Rate limit store error:', error);
+      next();
+      return;
+    }
+
+    const resetSeconds = secondsUntil(counter.resetAt, now);
+    res.set('RateLimit-Limit', String(options.max));
+    res.set('RateLimit-Remaining', String(Math.max(0, options.max - counter.count)));
+    res.set('RateLimit-Reset', String(resetSeconds));
+
+    if (counter.count > options.max) {
+      res.set('Retry-After', String(resetSeconds));
+      res.status(429).json({ message: 'Too many requests, please try again later' });
+      return;
+    }
+
+    next();
+  };
+};
+
+// Every API request, per client IP
+export const apiRateLimit = rateLimit({
+  name: 'api',
+  windowMs: config.rateLimit.apiWindowMs,
+  max: config.rateLimit.apiMax,
+});
+
+// Sign-in, registration and password reset, per client IP
+export const authRateLimit = rateLimit({
+  name: 'auth',
+  windowMs: config.rateLimit.authWindowMs,
+  max: config.rateLimit.authMax,
+});
+
+// The same endpoints per account, so spreading attempts over many IPs does not help
+export const accountRateLimit = rateLimit({
+  name: 'auth-account',
+  windowMs: config.rateLimit.authWindowMs,
+  max: config.rateLimit.authMax,
+  key: byEmail,
+});
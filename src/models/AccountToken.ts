@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AccountTokenPurpose = 'email-verification' | 'password-reset';
+
+/**
+ * A single-use token emailed to a user. Only its SHA-256 hash is stored.
+ */
+export interface IAccountToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  purpose: AccountTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountTokenSchema = new Schema<IAccountToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    purpose: {
+      type: String,
+      enum: ['email-verification', 'password-reset'],
+      required: [true, 'Purpose is required'],
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AccountTokenSchema.index({ userId: 1, purpose: 1 });
+// Expired tokens are removed by MongoDB
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAccountToken>('AccountToken', AccountTokenSchema);
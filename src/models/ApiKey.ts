@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ApiKeyScope =
+  | 'events:read'
+  | 'events:write'
+  | 'assignments:read'
+  | 'assignments:admin'
+  | 'profile:read'
+  | 'profile:write';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'events:read',
+  'events:write',
+  'assignments:read',
+  'assignments:admin',
+  'profile:read',
+  'profile:write',
+];
+
+/**
+ * A personal API key for scripts and bots. It acts as its owner, limited
+ * to its scopes. Only the SHA-256 hash of the key is stored.
+ */
+export interface IApiKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  // The start of the key, shown so users can tell their keys apart
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name must be at most 100 characters'],
+    },
+    prefix: {
+      type: String,
+      required: [true, 'Prefix is required'],
+    },
+    keyHash: {
+      type: String,
+      required: [true, 'Key hash is required'],
+      unique: true,
+    },
+    scopes: {
+      type: [{ type: String, enum: API_KEY_SCOPES }],
+      validate: {
+        validator: (scopes: string[]) => scopes.length > 0,
+        message: 'At least one scope is required',
+      },
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ApiKeySchema.index({ userId: 1 });
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
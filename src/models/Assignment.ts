@@ -1,10 +1,37 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+/**
+ * The two sides of an assignment
+ */
+export type AssignmentRole = 'santa' | 'receiver';
+
+/**
+ * Gift lifecycle, in order. The santa advances it up to `delivered`;
+ * only the receiver can confirm `received`.
+ */
+export type GiftStatus =
+  | 'not-started'
+  | 'purchased'
+  | 'shipped'
+  | 'delivered'
+  | 'received';
+
+export const GIFT_STATUSES: GiftStatus[] = [
+  'not-started',
+  'purchased',
+  'shipped',
+  'delivered',
+  'received',
+];
+
 export interface IAssignment extends Document {
   eventId: mongoose.Types.ObjectId;
   santaUserId: mongoose.Types.ObjectId;
   receiverUserId: mongoose.Types.ObjectId;
   receiverNumber: number;
+  giftStatus: GiftStatus;
+  trackingNumber?: string;
+  giftUpdatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -30,6 +57,18 @@ const AssignmentSchema = new Schema<IAssignment>(
       type: Number,
       required: [true, 'Receiver number is required'],
     },
+    giftStatus: {
+      type: String,
+      enum: GIFT_STATUSES,
+      default: 'not-started',
+    },
+    trackingNumber: {
+      type: String,
+      trim: true,
+    },
+    giftUpdatedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
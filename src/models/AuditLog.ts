@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AuditAction =
+  | 'auth.lockout'
+  | 'event.create'
+  | 'event.update'
+  | 'assignment.trigger'
+  | 'assignment.view'
+  | 'assignment.export'
+  | 'assignment.unseal'
+  | 'assignment.reveal'
+  | 'assignment.print'
+  | 'organiser.add'
+  | 'organiser.remove'
+  | 'participant.remove'
+  | 'participant.import';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'auth.lockout',
+  'event.create',
+  'event.update',
+  'assignment.trigger',
+  'assignment.view',
+  'assignment.export',
+  'assignment.unseal',
+  'assignment.reveal',
+  'assignment.print',
+  'organiser.add',
+  'organiser.remove',
+  'participant.remove',
+  'participant.import',
+];
+
+/**
+ * A security-relevant action. `actorId` is empty when nobody was signed
+ * in; `system` names the part of the server that acted on its own, e.g.
+ * the scheduler. Entries are append-only: they cannot be changed or
+ * deleted through the model.
+ */
+export interface IAuditLog extends Document {
+  action: AuditAction;
+  actorId?: mongoose.Types.ObjectId;
+  // Set when the actor used a personal API key
+  apiKeyId?: mongoose.Types.ObjectId;
+  system?: string;
+  eventId?: mongoose.Types.ObjectId;
+  targetUserId?: mongoose.Types.ObjectId;
+  ip?: string;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: [true, 'Action is required'],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+    },
+    system: {
+      type: String,
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    ip: {
+      type: String,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+AuditLogSchema.index({ eventId: 1, createdAt: -1 });
+
+const rejectChange = () => {
+  throw new Error('Audit log entries cannot be changed or deleted');
+};
+
+AuditLogSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    rejectChange();
+  }
+  next();
+});
+AuditLogSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'replaceOne',
+    'findOneAndUpdate',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  rejectChange
+);
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -1,16 +1,105 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
-export type EventStatus = 'draft' | 'open' | 'closed' | 'assigned';
+export type EventStatus =
+  | 'draft'
+  | 'open'
+  | 'closed'
+  | 'assigned'
+  | 'completed'
+  | 'cancelled';
+
+export const EVENT_STATUSES: EventStatus[] = [
+  'draft',
+  'open',
+  'closed',
+  'assigned',
+  'completed',
+  'cancelled',
+];
+
+/**
+ * - random: any valid draw
+ * - single-cycle: everyone forms one chain (A -> B -> C -> ... -> A)
+ * - pairs-avoid-reciprocal: nobody draws the person who drew them
+ */
+export type AssignmentMode = 'random' | 'single-cycle' | 'pairs-avoid-reciprocal';
+
+export const ASSIGNMENT_MODES: AssignmentMode[] = [
+  'random',
+  'single-cycle',
+  'pairs-avoid-reciprocal',
+];
+
+/**
+ * - open: any signed-in user can join
+ * - invite-only: joining requires an invite code or signed invite link
+ */
+export type JoinPolicy = 'open' | 'invite-only';
+
+/**
+ * How receivers are labelled on assignments and physical gift tags
+ * - numeric: the receiver number (#7)
+ * - words: a short word code (HOLLY)
+ * - emoji: an emoji pair
+ */
+export type LabelScheme = 'numeric' | 'words' | 'emoji';
+
+export const LABEL_SCHEMES: LabelScheme[] = ['numeric', 'words', 'emoji'];
+
+/**
+ * Everything needed to re-run and verify a draw
+ */
+export interface IDrawReceipt {
+  seed: string;
+  algorithmVersion: number;
+  mode: AssignmentMode;
+  participantCount: number;
+  participantsHash: string;
+  rulesHash: string;
+  drawnAt: Date;
+  // Set when assignments were repaired after the draw (e.g. a withdrawal),
+  // after which the stored assignments no longer match a re-run of the seed
+  amendedAt?: Date;
+}
 
 export interface IEvent extends Document {
   name: string;
   budgetLimit: number;
   registrationDeadline: Date;
+  drawAt?: Date;
+  revealAt?: Date;
+  revealedAt?: Date;
+  revealedBy?: mongoose.Types.ObjectId;
+  // Blind-organiser mode: nobody can read who draws whom until the reveal
+  sealed: boolean;
+  unsealedAt?: Date;
+  unsealedBy?: mongoose.Types.ObjectId;
+  unsealReason?: string;
   status: EventStatus;
+  assignmentMode: AssignmentMode;
+  joinPolicy: JoinPolicy;
+  labelScheme: LabelScheme;
+  ownerId?: mongoose.Types.ObjectId;
+  organiserIds: mongoose.Types.ObjectId[];
+  draw?: IDrawReceipt;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const DrawReceiptSchema = new Schema<IDrawReceipt>(
+  {
+    seed: { type: String, required: true },
+    algorithmVersion: { type: Number, required: true },
+    mode: { type: String, enum: ASSIGNMENT_MODES, required: true },
+    participantCount: { type: Number, required: true },
+    participantsHash: { type: String, required: true },
+    rulesHash: { type: String, required: true },
+    drawnAt: { type: Date, required: true },
+    amendedAt: { type: Date },
+  },
+  { _id: false }
+);
+
 const EventSchema = new Schema<IEvent>(
   {
     name: {
@@ -27,11 +116,69 @@ const EventSchema = new Schema<IEvent>(
       type: Date,
       required: [true, 'Registration deadline is required'],
     },
+    // When set, the draw runs automatically at this time
+    drawAt: {
+      type: Date,
+    },
+    // Santas are unmasked from this time on, or once an organiser reveals early
+    revealAt: {
+      type: Date,
+    },
+    revealedAt: {
+      type: Date,
+    },
+    revealedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // Organisers and admins only see aggregate stats until the reveal,
+    // unless someone breaks the seal (which is audited)
+    sealed: {
+      type: Boolean,
+      default: false,
+    },
+    unsealedAt: {
+      type: Date,
+    },
+    unsealedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    unsealReason: {
+      type: String,
+      trim: true,
+    },
     status: {
       type: String,
-      enum: ['draft', 'open', 'closed', 'assigned'],
+      enum: EVENT_STATUSES,
       default: 'draft',
     },
+    assignmentMode: {
+      type: String,
+      enum: ASSIGNMENT_MODES,
+      default: 'random',
+    },
+    joinPolicy: {
+      type: String,
+      enum: ['open', 'invite-only'],
+      default: 'open',
+    },
+    labelScheme: {
+      type: String,
+      enum: LABEL_SCHEMES,
+      default: 'numeric',
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    organiserIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+    },
+    draw: {
+      type: DrawReceiptSchema,
+    },
   },
   {
     timestamps: true,
@@ -41,5 +188,7 @@ const EventSchema = new Schema<IEvent>(
 // Index for faster queries
 EventSchema.index({ status: 1 });
 EventSchema.index({ registrationDeadline: 1 });
+EventSchema.index({ ownerId: 1 });
+EventSchema.index({ organiserIds: 1 });
 
 export default mongoose.model<IEvent>('Event', EventSchema);
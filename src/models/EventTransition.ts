@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { EVENT_STATUSES, EventStatus } from './Event';
+
+/**
+ * One recorded change of an event's status. `actorId` is empty for
+ * changes made by the scheduler.
+ */
+export interface IEventTransition extends Document {
+  eventId: mongoose.Types.ObjectId;
+  from: EventStatus;
+  to: EventStatus;
+  actorId?: mongoose.Types.ObjectId;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EventTransitionSchema = new Schema<IEventTransition>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event ID is required'],
+    },
+    from: {
+      type: String,
+      enum: EVENT_STATUSES,
+      required: [true, 'Previous status is required'],
+    },
+    to: {
+      type: String,
+      enum: EVENT_STATUSES,
+      required: [true, 'New status is required'],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+EventTransitionSchema.index({ eventId: 1, createdAt: 1 });
+
+export default mongoose.model<IEventTransition>('EventTransition', EventTransitionSchema);
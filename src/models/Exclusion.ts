@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * - couple: two people who must not draw each other
+ * - team: any number of people, none of whom may draw another member
+ * - pair: one-directional, the first user must not draw the second
+ */
+export type ExclusionType = 'couple' | 'team' | 'pair';
+
+export interface IExclusion extends Document {
+  eventId: mongoose.Types.ObjectId;
+  type: ExclusionType;
+  userIds: mongoose.Types.ObjectId[];
+  label?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExclusionSchema = new Schema<IExclusion>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event ID is required'],
+    },
+    type: {
+      type: String,
+      enum: ['couple', 'team', 'pair'],
+      required: [true, 'Exclusion type is required'],
+    },
+    userIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      validate: {
+        validator: function (this: IExclusion, v: mongoose.Types.ObjectId[]) {
+          const unique = new Set(v.map((id) => id.toString()));
+          if (unique.size !== v.length) return false;
+          return this.type === 'team' ? v.length >= 2 : v.length === 2;
+        },
+        message:
+          'Couples and pairs need exactly 2 distinct users, teams at least 2',
+      },
+    },
+    label: {
+      type: String,
+      trim: true,
+      default: '',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for faster queries
+ExclusionSchema.index({ eventId: 1 });
+
+export default mongoose.model<IExclusion>('Exclusion', ExclusionSchema);
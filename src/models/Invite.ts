@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IInvite extends Document {
+  eventId: mongoose.Types.ObjectId;
+  code: string;
+  label?: string;
+  expiresAt?: Date;
+  maxUses?: number;
+  uses: number;
+  revoked: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InviteSchema = new Schema<IInvite>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event ID is required'],
+    },
+    code: {
+      type: String,
+      required: [true, 'Invite code is required'],
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    label: {
+      type: String,
+      trim: true,
+      default: '',
+    },
+    expiresAt: {
+      type: Date,
+    },
+    maxUses: {
+      type: Number,
+      min: [1, 'Max uses must be at least 1'],
+    },
+    uses: {
+      type: Number,
+      default: 0,
+    },
+    revoked: {
+      type: Boolean,
+      default: false,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for faster queries
+InviteSchema.index({ eventId: 1 });
+
+export default mongoose.model<IInvite>('Invite', InviteSchema);
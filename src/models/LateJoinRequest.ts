@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type LateJoinStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A request to join an event after names were drawn. An organiser has to
+ * approve it before the user is spliced into the draw.
+ */
+export interface ILateJoinRequest extends Document {
+  eventId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  status: LateJoinStatus;
+  message?: string;
+  decidedBy?: mongoose.Types.ObjectId;
+  decidedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LateJoinRequestSchema = new Schema<ILateJoinRequest>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending',
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Message must be at most 500 characters'],
+    },
+    decidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    decidedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One open request per user and event
+LateJoinRequestSchema.index(
+  { eventId: 1, userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+export default mongoose.model<ILateJoinRequest>('LateJoinRequest', LateJoinRequestSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AssignmentRole } from './Assignment';
+
+/**
+ * A message in the anonymous thread between a santa and their receiver.
+ * Only the sender's role is stored, never their user id, so the santa's
+ * identity cannot leak through a message payload.
+ */
+export interface IMessage extends Document {
+  eventId: mongoose.Types.ObjectId;
+  assignmentId: mongoose.Types.ObjectId;
+  sender: AssignmentRole;
+  body: string;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MessageSchema = new Schema<IMessage>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event ID is required'],
+    },
+    assignmentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Assignment',
+      required: [true, 'Assignment ID is required'],
+    },
+    sender: {
+      type: String,
+      enum: ['santa', 'receiver'],
+      required: [true, 'Sender is required'],
+    },
+    body: {
+      type: String,
+      required: [true, 'Message body is required'],
+      trim: true,
+      maxlength: [2000, 'Message must be at most 2000 characters'],
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+MessageSchema.index({ assignmentId: 1, createdAt: 1 });
+MessageSchema.index({ eventId: 1 });
+
+export default mongoose.model<IMessage>('Message', MessageSchema);
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EmailTemplateName =
+  | 'join-confirmation'
+  | 'deadline-reminder'
+  | 'assignment-ready'
+  | 'receiver-changed'
+  | 'gift-received'
+  | 'email-verification'
+  | 'password-reset'
+  | 'password-changed';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+/**
+ * An email waiting to be sent (or already sent). Emails are rendered
+ * when queued, so a retry sends exactly what was originally queued.
+ */
+export interface IOutboxEmail extends Document {
+  to: string;
+  template: EmailTemplateName;
+  subject: string;
+  text: string;
+  html: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  // When the current or last attempt claimed the email (pending -> sending)
+  claimedAt?: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OutboxEmailSchema = new Schema<IOutboxEmail>(
+  {
+    to: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      lowercase: true,
+      trim: true,
+    },
+    template: {
+      type: String,
+      enum: [
+        'join-confirmation',
+        'deadline-reminder',
+        'assignment-ready',
+        'receiver-changed',
+        'gift-received',
+        'email-verification',
+        'password-reset',
+        'password-changed',
+      ],
+      required: [true, 'Template is required'],
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+    },
+    text: {
+      type: String,
+      required: [true, 'Text body is required'],
+    },
+    html: {
+      type: String,
+      required: [true, 'HTML body is required'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sending', 'sent', 'failed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    claimedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    sentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+OutboxEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+
+export default mongoose.model<IOutboxEmail>('OutboxEmail', OutboxEmailSchema);
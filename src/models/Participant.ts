@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IWishlistItem, WishlistItemSchema } from './User';
+
+/**
+ * A user's membership of one event, with the wishlist their santa sees
+ */
+export interface IParticipant extends Document {
+  eventId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  wishlist: IWishlistItem[];
+  joinedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ParticipantSchema = new Schema<IParticipant>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    wishlist: {
+      type: [WishlistItemSchema],
+      default: [],
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user can join each event only once
+ParticipantSchema.index({ eventId: 1, userId: 1 }, { unique: true });
+ParticipantSchema.index({ userId: 1 });
+
+export default mongoose.model<IParticipant>('Participant', ParticipantSchema);
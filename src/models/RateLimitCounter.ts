@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A rate limit counter shared by every server instance
+ */
+export interface IRateLimitCounter extends Document {
+  key: string;
+  count: number;
+  resetAt: Date;
+}
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: {
+    type: String,
+    required: [true, 'Key is required'],
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  resetAt: {
+    type: Date,
+    required: [true, 'Reset time is required'],
+  },
+});
+
+// Finished windows are removed by MongoDB
+RateLimitCounterSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRateLimitCounter>('RateLimitCounter', RateLimitCounterSchema);
@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * - close-registration: move an open event to closed at its deadline
+ * - deadline-reminder: email participants shortly before the deadline
+ * - run-draw: run the Secret Santa draw at the event's drawAt time
+ */
+export type JobType = 'close-registration' | 'deadline-reminder' | 'run-draw';
+
+export const JOB_TYPES: JobType[] = [
+  'close-registration',
+  'deadline-reminder',
+  'run-draw',
+];
+
+export type JobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'skipped'
+  | 'failed'
+  | 'cancelled';
+
+export const JOB_STATUSES: JobStatus[] = [
+  'pending',
+  'running',
+  'completed',
+  'skipped',
+  'failed',
+  'cancelled',
+];
+
+/**
+ * A scheduled event lifecycle step. Jobs are kept after they run,
+ * so the collection doubles as the job history.
+ */
+export interface IScheduledJob extends Document {
+  type: JobType;
+  eventId: mongoose.Types.ObjectId;
+  runAt: Date;
+  status: JobStatus;
+  attempts: number;
+  startedAt?: Date;
+  finishedAt?: Date;
+  result?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScheduledJobSchema = new Schema<IScheduledJob>(
+  {
+    type: {
+      type: String,
+      enum: JOB_TYPES,
+      required: [true, 'Job type is required'],
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event ID is required'],
+    },
+    runAt: {
+      type: Date,
+      required: [true, 'Run time is required'],
+    },
+    status: {
+      type: String,
+      enum: JOB_STATUSES,
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    startedAt: {
+      type: Date,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    result: {
+      type: String,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// At most one pending job of each type per event
+ScheduledJobSchema.index(
+  { eventId: 1, type: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+ScheduledJobSchema.index({ status: 1, runAt: 1 });
+ScheduledJobSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IScheduledJob>('ScheduledJob', ScheduledJobSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A signed-in device. Access tokens name their session, so revoking it
+ * signs the device out even before the access token expires.
+ */
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  // SHA-256 of the current refresh token secret; rotated on every refresh
+  refreshTokenHash: string;
+  // The token it replaced, so a replayed old token can be spotted
+  previousTokenHash?: string;
+  // When previousTokenHash was replaced; it is still accepted for a few seconds
+  rotatedAt?: Date;
+  userAgent: string;
+  ip: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    refreshTokenHash: {
+      type: String,
+      required: [true, 'Refresh token hash is required'],
+    },
+    previousTokenHash: {
+      type: String,
+    },
+    rotatedAt: {
+      type: Date,
+    },
+    userAgent: {
+      type: String,
+      default: '',
+    },
+    ip: {
+      type: String,
+      default: '',
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SessionSchema.index({ userId: 1 });
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
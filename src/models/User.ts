@@ -1,8 +1,31 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
-export interface IWishlist {
-  wishText: string;
-  link?: string;
+export type WishlistPriority = 'high' | 'medium' | 'low';
+
+export const WISHLIST_PRIORITIES: WishlistPriority[] = ['high', 'medium', 'low'];
+
+export const EMAIL_PATTERN = /^[\w-\.]+@([\w-]+\.)+[\w-]{2,4}$/;
+
+/**
+ * What is left of a user after `.populate(path, 'name email')`
+ */
+export interface PopulatedUser {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  email: string;
+}
+
+/**
+ * One wish; a wishlist is an ordered array of these (first = most wanted)
+ */
+export interface IWishlistItem {
+  _id?: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  url?: string;
+  estimatedPrice?: number;
+  priority: WishlistPriority;
+  notes?: string;
 }
 
 export interface IUser extends Document {
@@ -10,20 +33,42 @@ export interface IUser extends Document {
   email: string;
   passwordHash?: string;
   googleId?: string;
+  emailVerifiedAt?: Date;
   role: 'user' | 'admin';
-  wishlist: IWishlist;
-  eventId?: mongoose.Types.ObjectId;
+  wishlist: IWishlistItem[];
   createdAt: Date;
   updatedAt: Date;
 }
 
-const WishlistSchema = new Schema<IWishlist>({
-  wishText: {
+export const WishlistItemSchema = new Schema<IWishlistItem>({
+  title: {
+    type: String,
+    required: [true, 'Item title is required'],
+    trim: true,
+  },
+  description: {
     type: String,
+    trim: true,
     default: '',
   },
-  link: {
+  url: {
     type: String,
+    trim: true,
+    default: '',
+  },
+  estimatedPrice: {
+    type: Number,
+    min: [0, 'Estimated price must be a positive number'],
+  },
+  priority: {
+    type: String,
+    enum: WISHLIST_PRIORITIES,
+    default: 'medium',
+  },
+  // Size, colour and similar details
+  notes: {
+    type: String,
+    trim: true,
     default: '',
   },
 });
@@ -43,7 +88,7 @@ const UserSchema = new Schema<IUser>(
       trim: true,
       validate: {
         validator: function (v: string) {
-          return /^[\w-\.]+@([\w-]+\.)+[\w-]{2,4}$/.test(v);
+          return EMAIL_PATTERN.test(v);
         },
         message: 'Please provide a valid email address',
       },
@@ -57,18 +102,18 @@ const UserSchema = new Schema<IUser>(
       sparse: true,
       unique: true,
     },
+    // Set once the user proves they own the address
+    emailVerifiedAt: {
+      type: Date,
+    },
     role: {
       type: String,
       enum: ['user', 'admin'],
       default: 'user',
     },
     wishlist: {
-      type: WishlistSchema,
-      default: () => ({ wishText: '', link: '' }),
-    },
-    eventId: {
-      type: Schema.Types.ObjectId,
-      ref: 'Event',
+      type: [WishlistItemSchema],
+      default: [],
     },
   },
   {
@@ -1,5 +1,35 @@
 import User from './User';
 import Event from './Event';
 import Assignment from './Assignment';
+import Exclusion from './Exclusion';
+import Participant from './Participant';
+import Invite from './Invite';
+import Message from './Message';
+import ScheduledJob from './ScheduledJob';
+import EventTransition from './EventTransition';
+import OutboxEmail from './OutboxEmail';
+import LateJoinRequest from './LateJoinRequest';
+import Session from './Session';
+import AccountToken from './AccountToken';
+import RateLimitCounter from './RateLimitCounter';
+import AuditLog from './AuditLog';
+import ApiKey from './ApiKey';
 
-export { User, Event, Assignment };
+export {
+  User,
+  Event,
+  Assignment,
+  Exclusion,
+  Participant,
+  Invite,
+  Message,
+  ScheduledJob,
+  EventTransition,
+  OutboxEmail,
+  LateJoinRequest,
+  Session,
+  AccountToken,
+  RateLimitCounter,
+  AuditLog,
+  ApiKey,
+};
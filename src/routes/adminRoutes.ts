@@ -0,0 +1,16 @@
+import express from 'express';
+import {
+  getJobs,
+  getAuditLog,
+  getJobsValidation,
+  getAuditLogValidation,
+} from '../controllers/adminController';
+import { authenticate, authorizeAdmin } from '../middleware/auth';
+
+const router = express.Router();
+
+// Admin routes
+router.get('/jobs', authenticate, authorizeAdmin, getJobsValidation, getJobs);
+router.get('/audit', authenticate, authorizeAdmin, getAuditLogValidation, getAuditLog);
+
+export default router;
@@ -2,24 +2,90 @@ import express from 'express';
 import {
   triggerAssignment,
   getMyAssignment,
+  getMySanta,
+  revealSantas,
+  unsealAssignments,
   getAssignments,
-  exportAssignmentsCSV,
+  exportAssignments,
+  getGiftTags,
+  getMasterList,
+  verifyAssignments,
+  triggerAssignmentValidation,
+  exportAssignmentsValidation,
+  unsealAssignmentsValidation,
 } from '../controllers/assignmentController';
-import { authenticate, authorizeAdmin } from '../middleware/auth';
+import { apiKeyScope, authenticate, authorizeEventOrganiser } from '../middleware/auth';
 
 const router = express.Router();
 
-// User route
-router.get('/:id/assignments/me', authenticate, getMyAssignment);
+// User routes
+router.get(
+  '/:id/assignments/me',
+  apiKeyScope('assignments:read'),
+  authenticate,
+  getMyAssignment
+);
+router.get('/:id/my-santa', apiKeyScope('assignments:read'), authenticate, getMySanta);
 
-// Admin routes
-router.post('/:id/assign', authenticate, authorizeAdmin, triggerAssignment);
-router.get('/:id/assignments', authenticate, authorizeAdmin, getAssignments);
+// Organiser routes
+router.post(
+  '/:id/assign',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  triggerAssignmentValidation,
+  triggerAssignment
+);
+router.post(
+  '/:id/reveal',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  revealSantas
+);
+router.post(
+  '/:id/assignments/unseal',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  unsealAssignmentsValidation,
+  unsealAssignments
+);
+router.get(
+  '/:id/assignments',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  getAssignments
+);
 router.get(
   '/:id/assignments/export',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  exportAssignmentsValidation,
+  exportAssignments
+);
+router.get(
+  '/:id/assignments/tags',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  getGiftTags
+);
+router.get(
+  '/:id/assignments/master-list',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  getMasterList
+);
+router.get(
+  '/:id/assignments/verify',
+  apiKeyScope('assignments:admin'),
   authenticate,
-  authorizeAdmin,
-  exportAssignmentsCSV
+  authorizeEventOrganiser,
+  verifyAssignments
 );
 
 export default router;
@@ -4,23 +4,65 @@ import {
   register,
   login,
   logout,
+  refresh,
+  issueTokens,
+  getSessions,
+  deleteSession,
+  deleteAllSessions,
   getCurrentUser,
+  getCsrfToken,
   googleCallback,
+  confirmEmail,
+  resendVerification,
+  forgotPassword,
+  confirmPasswordReset,
+  updatePassword,
   registerValidation,
   loginValidation,
+  tokenValidation,
+  verifyEmailValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  changePasswordValidation,
 } from '../controllers/authController';
 import { authenticate } from '../middleware/auth';
+import { accountRateLimit, authRateLimit } from '../middleware/rateLimit';
 
 const router = express.Router();
 
+// CSRF token for cookie-authenticated clients
+router.get('/csrf-token', getCsrfToken);
+
 // Email/password auth
-router.post('/register', registerValidation, register);
-router.post('/login', loginValidation, login);
+router.post('/register', authRateLimit, registerValidation, register);
+router.post('/login', authRateLimit, accountRateLimit, loginValidation, login);
+router.post('/refresh', refresh);
 router.post('/logout', logout);
 
+// Bearer tokens for scripts and other clients without cookies
+router.post('/token', authRateLimit, accountRateLimit, tokenValidation, issueTokens);
+
+// Email verification and passwords
+router.post('/verify-email', verifyEmailValidation, confirmEmail);
+router.post('/verify-email/resend', authenticate, resendVerification);
+router.post(
+  '/forgot-password',
+  authRateLimit,
+  accountRateLimit,
+  forgotPasswordValidation,
+  forgotPassword
+);
+router.post('/reset-password', authRateLimit, resetPasswordValidation, confirmPasswordReset);
+router.post('/change-password', authenticate, changePasswordValidation, updatePassword);
+
 // Get current user
 router.get('/me', authenticate, getCurrentUser);
 
+// Sessions (signed-in devices)
+router.get('/sessions', authenticate, getSessions);
+router.delete('/sessions', authenticate, deleteAllSessions);
+router.delete('/sessions/:sessionId', authenticate, deleteSession);
+
 // Google OAuth
 router.get(
   '/google',
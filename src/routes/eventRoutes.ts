@@ -4,27 +4,97 @@ import {
   createEvent,
   updateEvent,
   getEventParticipants,
+  getParticipantsValidation,
+  importParticipantsCSV,
+  importParticipantsValidation,
   joinEvent,
+  getOrganisedEvents,
+  getOrganisers,
+  addOrganiser,
+  removeOrganiser,
+  getEventHistory,
+  withdrawFromEvent,
   createEventValidation,
+  addOrganiserValidation,
   updateEventValidation,
 } from '../controllers/eventController';
-import { authenticate, authorizeAdmin } from '../middleware/auth';
+import { apiKeyScope, authenticate, authorizeEventOrganiser } from '../middleware/auth';
 
 const router = express.Router();
 
 // Public/user routes
-router.get('/current', authenticate, getCurrentEvent);
-router.post('/join', authenticate, joinEvent);
+router.get('/current', apiKeyScope('events:read'), authenticate, getCurrentEvent);
+router.get('/organising', apiKeyScope('events:read'), authenticate, getOrganisedEvents);
+router.post('/:id/join', apiKeyScope('events:write'), authenticate, joinEvent);
+router.post(
+  '/',
+  apiKeyScope('events:write'),
+  authenticate,
+  createEventValidation,
+  createEvent
+);
+// Organisers, or the participant withdrawing themselves
+router.post(
+  '/:id/participants/:userId/withdraw',
+  apiKeyScope('events:write'),
+  authenticate,
+  withdrawFromEvent
+);
 
-// Admin routes
-router.post('/', authenticate, authorizeAdmin, createEventValidation, createEvent);
+// Organiser routes
 router.put(
   '/:id',
+  apiKeyScope('events:write'),
   authenticate,
-  authorizeAdmin,
+  authorizeEventOrganiser,
   updateEventValidation,
   updateEvent
 );
-router.get('/:id/participants', authenticate, authorizeAdmin, getEventParticipants);
+router.get(
+  '/:id/history',
+  apiKeyScope('events:read'),
+  authenticate,
+  authorizeEventOrganiser,
+  getEventHistory
+);
+router.get(
+  '/:id/participants',
+  apiKeyScope('events:read'),
+  authenticate,
+  authorizeEventOrganiser,
+  getParticipantsValidation,
+  getEventParticipants
+);
+router.post(
+  '/:id/participants/import',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  express.text({ type: 'text/csv', limit: '1mb' }),
+  importParticipantsValidation,
+  importParticipantsCSV
+);
+router.get(
+  '/:id/organisers',
+  apiKeyScope('events:read'),
+  authenticate,
+  authorizeEventOrganiser,
+  getOrganisers
+);
+router.post(
+  '/:id/organisers',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  addOrganiserValidation,
+  addOrganiser
+);
+router.delete(
+  '/:id/organisers/:userId',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  removeOrganiser
+);
 
 export default router;
@@ -0,0 +1,56 @@
+import express from 'express';
+import {
+  getExclusions,
+  createExclusion,
+  updateExclusion,
+  deleteExclusion,
+  importPreviousPairs,
+  createExclusionValidation,
+  updateExclusionValidation,
+  importExclusionsValidation,
+} from '../controllers/exclusionController';
+import { apiKeyScope, authenticate, authorizeEventOrganiser } from '../middleware/auth';
+
+const router = express.Router();
+
+// Organiser routes
+router.get(
+  '/:id/exclusions',
+  apiKeyScope('events:read'),
+  authenticate,
+  authorizeEventOrganiser,
+  getExclusions
+);
+router.post(
+  '/:id/exclusions',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  createExclusionValidation,
+  createExclusion
+);
+router.post(
+  '/:id/exclusions/import',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  importExclusionsValidation,
+  importPreviousPairs
+);
+router.put(
+  '/:id/exclusions/:exclusionId',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  updateExclusionValidation,
+  updateExclusion
+);
+router.delete(
+  '/:id/exclusions/:exclusionId',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  deleteExclusion
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+  updateGiftStatus,
+  getIncomingGift,
+  confirmGiftReceived,
+  getGiftProgress,
+  updateGiftStatusValidation,
+} from '../controllers/giftController';
+import { apiKeyScope, authenticate, authorizeEventOrganiser } from '../middleware/auth';
+
+const router = express.Router();
+
+// User routes
+router.put(
+  '/:id/assignments/me/gift',
+  authenticate,
+  updateGiftStatusValidation,
+  updateGiftStatus
+);
+router.get('/:id/my-santa/gift', authenticate, getIncomingGift);
+router.post('/:id/my-santa/gift/received', authenticate, confirmGiftReceived);
+
+// Organiser routes
+router.get(
+  '/:id/assignments/progress',
+  apiKeyScope('assignments:admin'),
+  authenticate,
+  authorizeEventOrganiser,
+  getGiftProgress
+);
+
+export default router;
@@ -3,6 +3,12 @@ import authRoutes from './authRoutes';
 import userRoutes from './userRoutes';
 import eventRoutes from './eventRoutes';
 import assignmentRoutes from './assignmentRoutes';
+import exclusionRoutes from './exclusionRoutes';
+import inviteRoutes from './inviteRoutes';
+import messageRoutes from './messageRoutes';
+import giftRoutes from './giftRoutes';
+import lateJoinRoutes from './lateJoinRoutes';
+import adminRoutes from './adminRoutes';
 
 const router = express.Router();
 
@@ -10,5 +16,11 @@ router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/events', eventRoutes);
 router.use('/events', assignmentRoutes);
+router.use('/events', exclusionRoutes);
+router.use('/events', inviteRoutes);
+router.use('/events', messageRoutes);
+router.use('/events', giftRoutes);
+router.use('/events', lateJoinRoutes);
+router.use('/admin', adminRoutes);
 
 export default router;
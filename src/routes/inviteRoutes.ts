@@ -0,0 +1,40 @@
+import express from 'express';
+import {
+  getInvites,
+  createInvite,
+  revokeInvite,
+  joinWithInvite,
+  createInviteValidation,
+} from '../controllers/inviteController';
+import { apiKeyScope, authenticate, authorizeEventOrganiser } from '../middleware/auth';
+
+const router = express.Router();
+
+// User route
+router.post('/join/:code', apiKeyScope('events:write'), authenticate, joinWithInvite);
+
+// Organiser routes
+router.get(
+  '/:id/invites',
+  apiKeyScope('events:read'),
+  authenticate,
+  authorizeEventOrganiser,
+  getInvites
+);
+router.post(
+  '/:id/invites',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  createInviteValidation,
+  createInvite
+);
+router.delete(
+  '/:id/invites/:inviteId',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  revokeInvite
+);
+
+export default router;
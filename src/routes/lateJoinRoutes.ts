@@ -0,0 +1,45 @@
+import express from 'express';
+import {
+  createLateJoinRequest,
+  getLateJoinRequests,
+  approveLateJoinRequest,
+  rejectLateJoinRequest,
+  requestLateJoinValidation,
+} from '../controllers/lateJoinController';
+import { apiKeyScope, authenticate, authorizeEventOrganiser } from '../middleware/auth';
+
+const router = express.Router();
+
+// User route
+router.post(
+  '/:id/late-join',
+  apiKeyScope('events:write'),
+  authenticate,
+  requestLateJoinValidation,
+  createLateJoinRequest
+);
+
+// Organiser routes
+router.get(
+  '/:id/late-join-requests',
+  apiKeyScope('events:read'),
+  authenticate,
+  authorizeEventOrganiser,
+  getLateJoinRequests
+);
+router.post(
+  '/:id/late-join-requests/:requestId/approve',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  approveLateJoinRequest
+);
+router.post(
+  '/:id/late-join-requests/:requestId/reject',
+  apiKeyScope('events:write'),
+  authenticate,
+  authorizeEventOrganiser,
+  rejectLateJoinRequest
+);
+
+export default router;
@@ -0,0 +1,26 @@
+import express from 'express';
+import {
+  getReceiverThread,
+  messageReceiver,
+  getSantaThread,
+  messageSanta,
+  getUnreadCounts,
+  sendMessageValidation,
+} from '../controllers/messageController';
+import { authenticate } from '../middleware/auth';
+
+const router = express.Router();
+
+// User routes
+router.get('/:id/messages/unread', authenticate, getUnreadCounts);
+router.get('/:id/assignments/me/messages', authenticate, getReceiverThread);
+router.post(
+  '/:id/assignments/me/messages',
+  authenticate,
+  sendMessageValidation,
+  messageReceiver
+);
+router.get('/:id/my-santa/messages', authenticate, getSantaThread);
+router.post('/:id/my-santa/messages', authenticate, sendMessageValidation, messageSanta);
+
+export default router;
@@ -2,13 +2,80 @@ import express from 'express';
 import {
   getProfile,
   updateProfile,
+  getMyEvents,
   updateProfileValidation,
 } from '../controllers/userController';
-import { authenticate } from '../middleware/auth';
+import {
+  getWishlistItems,
+  addWishlistItem,
+  updateWishlistItem,
+  deleteWishlistItem,
+  reorderWishlist,
+  wishlistQueryValidation,
+  addWishlistItemValidation,
+  updateWishlistItemValidation,
+  reorderWishlistValidation,
+} from '../controllers/wishlistController';
+import {
+  createMyApiKey,
+  getMyApiKeys,
+  deleteMyApiKey,
+  createApiKeyValidation,
+} from '../controllers/apiKeyController';
+import { apiKeyScope, authenticate } from '../middleware/auth';
 
 const router = express.Router();
 
-router.get('/me', authenticate, getProfile);
-router.put('/me', authenticate, updateProfileValidation, updateProfile);
+router.get('/me', apiKeyScope('profile:read'), authenticate, getProfile);
+router.put(
+  '/me',
+  apiKeyScope('profile:write'),
+  authenticate,
+  updateProfileValidation,
+  updateProfile
+);
+router.get('/me/events', apiKeyScope('events:read'), authenticate, getMyEvents);
+
+// Wishlist items (profile wishlist, or an event's wishlist with ?eventId=)
+router.get(
+  '/me/wishlist/items',
+  apiKeyScope('profile:read'),
+  authenticate,
+  wishlistQueryValidation,
+  getWishlistItems
+);
+router.post(
+  '/me/wishlist/items',
+  apiKeyScope('profile:write'),
+  authenticate,
+  addWishlistItemValidation,
+  addWishlistItem
+);
+router.put(
+  '/me/wishlist/order',
+  apiKeyScope('profile:write'),
+  authenticate,
+  reorderWishlistValidation,
+  reorderWishlist
+);
+router.put(
+  '/me/wishlist/items/:itemId',
+  apiKeyScope('profile:write'),
+  authenticate,
+  updateWishlistItemValidation,
+  updateWishlistItem
+);
+router.delete(
+  '/me/wishlist/items/:itemId',
+  apiKeyScope('profile:write'),
+  authenticate,
+  wishlistQueryValidation,
+  deleteWishlistItem
+);
+
+// Personal API keys (cannot be managed with an API key)
+router.get('/me/api-keys', authenticate, getMyApiKeys);
+router.post('/me/api-keys', authenticate, createApiKeyValidation, createMyApiKey);
+router.delete('/me/api-keys/:keyId', authenticate, deleteMyApiKey);
 
 export default router;
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/database';
+import User from '../models/User';
+import Participant from '../models/Participant';
+
+/**
+ * One-off migration from the single `User.eventId` field to Participant records
+ * Safe to run more than once: existing memberships are left untouched
+ */
+const migrateParticipants = async (): Promise<void> => {
+  await connectDB();
+
+  // eventId is no longer part of the schema, so read the raw documents
+  const legacyUsers = await User.collection
+    .find({ eventId: { $exists: true, $ne: null } })
+    .toArray();
+
+  let created = 0;
+  for (const user of legacyUsers) {
+    // Raw write: the wishlist is copied as stored and converted by migrate:wishlists
+    const result = await Participant.collection.updateOne(
+      { eventId: user.eventId, userId: user._id },
+      {
+        $setOnInsert: {
+          wishlist: user.wishlist || [],
+          joinedAt: user.updatedAt || user.createdAt || new Date(),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+    created += result.upsertedCount;
+  }
+
+  await User.collection.updateMany(
+    { eventId: { $exists: true } },
+    { $unset: { eventId: '' } }
+  );
+
+  console.log(
+    `✅ Migrated ${legacyUsers.length} users (${created} new participant records)`
+  );
+};
+
+migrateParticipants()
+  .catch((error) => {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.connection.close());
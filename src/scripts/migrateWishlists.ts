@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/database';
+import User from '../models/User';
+import Participant from '../models/Participant';
+
+interface LegacyWishlist {
+  wishText?: string;
+  link?: string;
+}
+
+/**
+ * Convert a `{ wishText, link }` wishlist into the item list format
+ */
+const toItems = (legacy: LegacyWishlist) => {
+  if (!legacy.wishText && !legacy.link) {
+    return [];
+  }
+
+  return [
+    {
+      _id: new mongoose.Types.ObjectId(),
+      title: legacy.wishText || legacy.link,
+      description: '',
+      url: legacy.link || '',
+      priority: 'medium',
+      notes: '',
+    },
+  ];
+};
+
+/**
+ * One-off migration from single-text wishlists to wishlist item lists
+ * Run after migrate:participants; already converted documents are skipped
+ */
+const migrateWishlists = async (): Promise<void> => {
+  await connectDB();
+
+  let converted = 0;
+  for (const collection of [User.collection, Participant.collection]) {
+    // Legacy wishlists are embedded documents, new ones are arrays. `$type`
+    // also matches arrays of subdocuments, so those are excluded explicitly.
+    const legacyDocs = await collection
+      .find({ wishlist: { $type: 'object', $not: { $type: 'array' } } })
+      .project({ wishlist: 1 })
+      .toArray();
+
+    for (const doc of legacyDocs) {
+      await collection.updateOne(
+        { _id: doc._id },
+        { $set: { wishlist: toItems(doc.wishlist as LegacyWishlist) } }
+      );
+      converted++;
+    }
+  }
+
+  console.log(`✅ Converted ${converted} wishlists`);
+};
+
+migrateWishlists()
+  .catch((error) => {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.connection.close());
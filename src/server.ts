@@ -6,12 +6,25 @@ import { connectDB } from './config/database';
 import passport from './config/passport';
 import routes from './routes';
 import { errorHandler } from './middleware/errorHandler';
+import { apiRateLimit } from './middleware/rateLimit';
+import { csrfProtection } from './middleware/csrf';
+import { startScheduler } from './services/scheduler';
+import { getEmailTransport } from './services/mailer';
 
 const app: Application = express();
 
+// Behind a proxy, req.ip comes from X-Forwarded-For so rate limits count per client
+app.set('trust proxy', config.trustProxy);
+
+// Fail now rather than at the first email if no transport is configured
+getEmailTransport();
+
 // Connect to database
 connectDB();
 
+// Auto-close registrations and run scheduled draws
+startScheduler(config.schedulerIntervalMs);
+
 // Middleware
 const allowedOrigins = [
   'https://secret-santa-client-812y1m4c2-dumindu-mendis-projects.vercel.app',
@@ -46,7 +59,7 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
-app.use('/api', routes);
+app.use('/api', apiRateLimit, csrfProtection, routes);
 
 // Error handler (must be last)
 app.use(errorHandler);
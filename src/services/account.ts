@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import config from '../config';
+import AccountToken, { AccountTokenPurpose } from '../models/AccountToken';
+import User, { IUser } from '../models/User';
+import { comparePassword, hashPassword } from '../utils/password';
+import { sha256 } from '../utils/random';
+import {
+  notifyEmailVerification,
+  notifyPasswordChanged,
+  notifyPasswordReset,
+} from './notifications';
+import { listApiKeys, revokeAllApiKeys } from './apiKeys';
+import { revokeAllSessions } from './sessions';
+
+/**
+ * Thrown when an account action is not allowed; `status` is the HTTP status to report
+ */
+export class AccountError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AccountError';
+    this.status = status;
+  }
+}
+
+const tokenTtlMs = (purpose: AccountTokenPurpose): number =>
+  purpose === 'email-verification'
+    ? config.emailVerificationTtlHours * 60 * 60 * 1000
+    : config.passwordResetTtlMinutes * 60 * 1000;
+
+/**
+ * Create a single-use token; any earlier unused token for the same
+ * purpose stops working
+ */
+export const issueAccountToken = async (
+  userId: mongoose.Types.ObjectId,
+  purpose: AccountTokenPurpose
+): Promise<string> => {
+  await AccountToken.deleteMany({ userId, purpose, usedAt: { $exists: false } });
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await AccountToken.create({
+    userId,
+    purpose,
+    tokenHash: sha256(token),
+    expiresAt: new Date(Date.now() + tokenTtlMs(purpose)),
+  });
+
+  return token;
+};
+
+/**
+ * Use up a token and return its user; marking it used is atomic, so a
+ * token cannot be redeemed twice
+ */
+export const consumeAccountToken = async (
+  token: string,
+  purpose: AccountTokenPurpose
+): Promise<mongoose.Types.ObjectId> => {
+  const record = await AccountToken.findOneAndUpdate(
+    {
+      tokenHash: sha256(token),
+      purpose,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() }
+  );
+  if (!record) {
+    throw new AccountError('This link is invalid or has expired');
+  }
+
+  return record.userId;
+};
+
+export const sendEmailVerification = async (user: IUser): Promise<void> => {
+  const token = await issueAccountToken(
+    user._id as mongoose.Types.ObjectId,
+    'email-verification'
+  );
+  await notifyEmailVerification(user, token);
+};
+
+export const verifyEmail = async (token: string): Promise<IUser> => {
+  const userId = await consumeAccountToken(token, 'email-verification');
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new AccountError('User not found', 404);
+  }
+
+  if (!user.emailVerifiedAt) {
+    user.emailVerifiedAt = new Date();
+    await user.save();
+  }
+  return user;
+};
+
+/**
+ * Email a reset link if the address, normalized as at sign-up, belongs to a
+ * user. Callers answer the same either way so the endpoint does not reveal
+ * who has an account.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await User.findOne({ email });
+  if (!user) {
+    return;
+  }
+
+  const token = await issueAccountToken(
+    user._id as mongoose.Types.ObjectId,
+    'password-reset'
+  );
+  await notifyPasswordReset(user, token);
+};
+
+/**
+ * Set a new password from a reset link. Every session is signed out and
+ * every API key revoked, since either may have been made by whoever had
+ * the old password. The address counts as verified since the link was
+ * opened from it.
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  const userId = await consumeAccountToken(token, 'password-reset');
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new AccountError('User not found', 404);
+  }
+
+  user.passwordHash = await hashPassword(password);
+  user.emailVerifiedAt = user.emailVerifiedAt || new Date();
+  await user.save();
+
+  // Earlier reset links must not work after the password changed
+  await AccountToken.deleteMany({ userId, usedAt: { $exists: false } });
+  await revokeAllSessions(userId.toString());
+  const revoked = await revokeAllApiKeys(userId.toString());
+  await notifyPasswordChanged(user, { active: [], revoked });
+};
+
+/**
+ * Change the password of a signed-in user; other sessions are signed out.
+ * API keys keep working, but are listed in the notice so unknown ones can
+ * be revoked. Users without a password yet (Google sign-in, imported)
+ * skip the check.
+ */
+export const changePassword = async (
+  userId: string,
+  currentPassword: string | undefined,
+  newPassword: string,
+  sessionId?: string
+): Promise<void> => {
+  const user = await User.findById(userId).select('+passwordHash');
+  if (!user) {
+    throw new AccountError('User not found', 404);
+  }
+
+  if (user.passwordHash) {
+    if (!currentPassword || !(await comparePassword(currentPassword, user.passwordHash))) {
+      throw new AccountError('Current password is incorrect', 401);
+    }
+  }
+
+  user.passwordHash = await hashPassword(newPassword);
+  await user.save();
+
+  await revokeAllSessions(userId, sessionId);
+  const apiKeys = await listApiKeys(userId);
+  await notifyPasswordChanged(user, { active: apiKeys, revoked: 0 });
+};
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ApiKey, { ApiKeyScope, IApiKey } from '../models/ApiKey';
+import User, { IUser } from '../models/User';
+import { sha256 } from '../utils/random';
+
+// Marks a bearer token as an API key rather than a JWT
+export const API_KEY_PREFIX = 'ssk_';
+
+const MAX_KEYS_PER_USER = 20;
+// Only write lastUsedAt when it is this stale, so requests do not all hit the database
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Thrown when an API key cannot be created or changed; `status` is the HTTP status to report
+ */
+export class ApiKeyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ApiKeyError';
+    this.status = status;
+  }
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+}
+
+const isActive = { revokedAt: { $exists: false } };
+
+// `null` also matches keys without an expiry
+const notExpired = (now: Date) => ({
+  $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+});
+
+/**
+ * Create a key for the user. The key itself is only returned here; it
+ * cannot be shown again.
+ */
+export const createApiKey = async (
+  userId: string,
+  input: NewApiKey
+): Promise<{ apiKey: IApiKey; key: string }> => {
+  const count = await ApiKey.countDocuments({ userId, ...isActive });
+  if (count >= MAX_KEYS_PER_USER) {
+    throw new ApiKeyError(`You can have at most ${MAX_KEYS_PER_USER} API keys`);
+  }
+
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const apiKey = await ApiKey.create({
+    userId,
+    name: input.name,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    keyHash: sha256(key),
+    scopes: [...new Set(input.scopes)],
+    expiresAt: input.expiresAt,
+  });
+
+  return { apiKey, key };
+};
+
+/**
+ * The user's keys that have not been revoked, newest first
+ */
+export const listApiKeys = async (userId: string) =>
+  ApiKey.find({ userId, ...isActive }).sort({ createdAt: -1 });
+
+/**
+ * Revoke one of the user's keys; returns false if there is no such key
+ */
+export const revokeApiKey = async (userId: string, keyId: string): Promise<boolean> => {
+  if (!mongoose.isValidObjectId(keyId)) {
+    return false;
+  }
+
+  const result = await ApiKey.updateOne(
+    { _id: keyId, userId, ...isActive },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Revoke all of the user's keys, e.g. once their password was reset;
+ * returns how many were revoked
+ */
+export const revokeAllApiKeys = async (userId: string): Promise<number> => {
+  const result = await ApiKey.updateMany({ userId, ...isActive }, { revokedAt: new Date() });
+  return result.modifiedCount;
+};
+
+/**
+ * The key and its owner if the key can be used; also records when and
+ * from where it was last used
+ */
+export const verifyApiKey = async (
+  key: string,
+  ip?: string
+): Promise<{ apiKey: IApiKey; user: IUser } | null> => {
+  const now = new Date();
+  const apiKey = await ApiKey.findOne({ keyHash: sha256(key), ...isActive, ...notExpired(now) });
+  if (!apiKey) {
+    return null;
+  }
+
+  const user = await User.findById(apiKey.userId);
+  if (!user) {
+    return null;
+  }
+
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS ||
+    apiKey.lastUsedIp !== ip
+  ) {
+    await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: now, lastUsedIp: ip });
+  }
+
+  return { apiKey, user };
+};
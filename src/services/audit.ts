@@ -0,0 +1,93 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import AuditLog, { AuditAction, IAuditLog } from '../models/AuditLog';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export interface AuditEntry {
+  action: AuditAction;
+  actorId?: Id;
+  apiKeyId?: Id;
+  system?: string;
+  eventId?: Id;
+  targetUserId?: Id;
+  ip?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Who made the request and from where, for an audit entry
+ */
+export const auditActor = (
+  req: Request
+): Pick<AuditEntry, 'actorId' | 'apiKeyId' | 'ip'> => ({
+  actorId: req.user?.userId,
+  apiKeyId: req.apiKey?.id,
+  ip: req.ip,
+});
+
+// The actor for jobs the scheduler runs without anyone asking
+export const SCHEDULER_ACTOR: Pick<AuditEntry, 'system'> = { system: 'scheduler' };
+
+/**
+ * Record an audit entry. Failing to write one is logged rather than
+ * failing the request that caused it.
+ */
+export const recordAudit = async (entry: AuditEntry): Promise<void> => {
+  try {
+    await AuditLog.create(entry);
+  } catch (error) {
+    console.error(`Error recording ${entry.action} audit entry:`, error);
+  }
+};
+
+/**
+ * Record an audit entry, throwing if it cannot be written; for actions
+ * that must not go ahead unrecorded
+ */
+export const recordRequiredAudit = async (entry: AuditEntry): Promise<void> => {
+  await AuditLog.create(entry);
+};
+
+export interface AuditQuery {
+  action?: AuditAction;
+  actorId?: string;
+  eventId?: string;
+  targetUserId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Matching entries, newest first, with the total for paging
+ */
+export const findAuditEntries = async (
+  query: AuditQuery
+): Promise<{ entries: IAuditLog[]; total: number }> => {
+  const { action, actorId, eventId, targetUserId, from, to, page, limit } = query;
+
+  const filter = {
+    ...(action && { action }),
+    ...(actorId && { actorId }),
+    ...(eventId && { eventId }),
+    ...(targetUserId && { targetUserId }),
+    ...((from || to) && {
+      createdAt: { ...(from && { $gte: from }), ...(to && { $lte: to }) },
+    }),
+  };
+
+  const [entries, total] = await Promise.all([
+    AuditLog.find(filter)
+      .populate('actorId', 'name email')
+      .populate('targetUserId', 'name email')
+      .populate('eventId', 'name')
+      .sort({ createdAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    AuditLog.countDocuments(filter),
+  ]);
+
+  return { entries, total };
+};
@@ -0,0 +1,206 @@
+import config from '../config';
+import { EmailTemplateName } from '../models/OutboxEmail';
+import { IWishlistItem } from '../models/User';
+
+export interface RenderedEmail {
+  template: EmailTemplateName;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (date: Date): string =>
+  date.toLocaleString('en-GB', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  }) + ' UTC';
+
+const eventUrl = (eventId: string): string => `${config.clientUrl}/events/${eventId}`;
+
+/**
+ * Wrap paragraphs into the plain text and HTML bodies. Paragraphs are
+ * plain text and get escaped; `extra.html` is inserted as is.
+ */
+const render = (
+  template: EmailTemplateName,
+  subject: string,
+  paragraphs: string[],
+  extra: { text: string; html: string } = { text: '', html: '' }
+): RenderedEmail => ({
+  template,
+  subject,
+  text: [...paragraphs, extra.text].filter(Boolean).join('\n\n') + '\n',
+  html:
+    '<!DOCTYPE html><html><body style="font-family: sans-serif">' +
+    paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join('') +
+    extra.html +
+    '</body></html>',
+});
+
+interface EventInfo {
+  id: string;
+  name: string;
+  budgetLimit: number;
+  registrationDeadline: Date;
+}
+
+export const joinConfirmationEmail = (name: string, event: EventInfo): RenderedEmail =>
+  render('join-confirmation', `You joined ${event.name}`, [
+    `Hi ${name},`,
+    `You're in! You joined the Secret Santa "${event.name}" ` +
+      `with a budget of ${event.budgetLimit}.`,
+    `Registration closes on ${formatDate(event.registrationDeadline)}. ` +
+      'Add a few ideas to your wishlist before then so your Santa knows what to get you.',
+    eventUrl(event.id),
+  ]);
+
+export const deadlineReminderEmail = (name: string, event: EventInfo): RenderedEmail =>
+  render('deadline-reminder', `Registration for ${event.name} closes soon`, [
+    `Hi ${name},`,
+    `Registration for "${event.name}" closes on ` +
+      `${formatDate(event.registrationDeadline)}.`,
+    'This is your last chance to update your wishlist before names are drawn.',
+    eventUrl(event.id),
+  ]);
+
+const wishlistBody = (wishlist: IWishlistItem[]): { text: string; html: string } => {
+  if (!wishlist.length) {
+    const empty = 'Their wishlist is empty, so you will have to be creative!';
+    return { text: empty, html: `<p>${empty}</p>` };
+  }
+
+  const itemText = (item: IWishlistItem) =>
+    [
+      item.title,
+      item.estimatedPrice !== undefined && `(~${item.estimatedPrice})`,
+      item.url,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+  const itemHtml = (item: IWishlistItem) => {
+    const title = item.url
+      ? `<a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a>`
+      : escapeHtml(item.title);
+    const price = item.estimatedPrice !== undefined ? ` (~${item.estimatedPrice})` : '';
+    return `<li>${title}${price}</li>`;
+  };
+
+  return {
+    text: `Their wishlist:\n${wishlist.map((item) => `- ${itemText(item)}`).join('\n')}`,
+    html: `<p>Their wishlist:</p><ul>${wishlist.map(itemHtml).join('')}</ul>`,
+  };
+};
+
+/**
+ * Only the receiver label and wishlist: the receiver's name and email
+ * never appear in the email
+ */
+export const assignmentReadyEmail = (
+  name: string,
+  event: EventInfo,
+  receiverLabel: string,
+  wishlist: IWishlistItem[]
+): RenderedEmail =>
+  render(
+    'assignment-ready',
+    `Your Secret Santa assignment for ${event.name} is ready`,
+    [
+      `Hi ${name},`,
+      `Names have been drawn for "${event.name}". ` +
+        `You are the Secret Santa for receiver ${receiverLabel}.`,
+      `The budget is ${event.budgetLimit}.`,
+      eventUrl(event.id),
+    ],
+    wishlistBody(wishlist)
+  );
+
+/**
+ * Sent when a santa gets a new receiver because someone withdrew or joined late
+ */
+export const receiverChangedEmail = (
+  name: string,
+  event: EventInfo,
+  receiverLabel: string,
+  wishlist: IWishlistItem[]
+): RenderedEmail =>
+  render(
+    'receiver-changed',
+    `Your Secret Santa receiver for ${event.name} has changed`,
+    [
+      `Hi ${name},`,
+      `The participants of "${event.name}" have changed, and so has your assignment. ` +
+        `You are now the Secret Santa for receiver ${receiverLabel}.`,
+      'If you already bought a gift, check whether it still suits the new wishlist.',
+      eventUrl(event.id),
+    ],
+    wishlistBody(wishlist)
+  );
+
+export const giftReceivedEmail = (
+  name: string,
+  event: EventInfo,
+  receiverLabel: string
+): RenderedEmail =>
+  render('gift-received', `Your gift for ${event.name} arrived`, [
+    `Hi ${name},`,
+    `Receiver ${receiverLabel} confirmed they received your gift for "${event.name}". ` +
+      'Nice work, Santa!',
+  ]);
+
+export const emailVerificationEmail = (name: string, link: string): RenderedEmail =>
+  render('email-verification', 'Confirm your email address', [
+    `Hi ${name},`,
+    'Please confirm your email address for Secret Santa by opening this link:',
+    link,
+    `The link expires in ${config.emailVerificationTtlHours} hours.`,
+  ]);
+
+export const passwordResetEmail = (name: string, link: string): RenderedEmail =>
+  render('password-reset', 'Reset your Secret Santa password', [
+    `Hi ${name},`,
+    'Someone asked to reset the password for your Secret Santa account. ' +
+      'If it was you, choose a new password here:',
+    link,
+    `The link works once and expires in ${config.passwordResetTtlMinutes} minutes. ` +
+      'If you did not ask for this, you can ignore this email.',
+  ]);
+
+export interface PasswordChangeKeys {
+  // Personal API keys that still work after the change
+  active: { name: string; prefix: string }[];
+  // How many keys were revoked along with the password
+  revoked: number;
+}
+
+export const passwordChangedEmail = (
+  name: string,
+  apiKeys: PasswordChangeKeys = { active: [], revoked: 0 }
+): RenderedEmail =>
+  render('password-changed', 'Your Secret Santa password was changed', [
+    `Hi ${name},`,
+    'The password for your Secret Santa account was just changed and your other ' +
+      'devices were signed out.',
+    ...(apiKeys.revoked
+      ? [
+          `Your personal API keys (${apiKeys.revoked}) were revoked as well; ` +
+            'create new ones if you still need them.',
+        ]
+      : []),
+    ...(apiKeys.active.length
+      ? [
+          'These personal API keys still work. Revoke any you do not recognise:',
+          apiKeys.active.map((key) => `${key.name} (${key.prefix}...)`).join(', '),
+        ]
+      : []),
+    'If this was not you, reset your password right away.',
+  ]);
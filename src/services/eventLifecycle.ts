@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import { EventStatus, IEvent } from '../models/Event';
+import EventTransition from '../models/EventTransition';
+
+/**
+ * Allowed status changes:
+ *
+ *   draft -> open -> closed -> assigned -> completed
+ *              ^-------'
+ *
+ * `open` can go straight to `assigned` (drawing closes registration), and
+ * any event that is not finished can be cancelled. `completed` and
+ * `cancelled` are final.
+ */
+export const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  draft: ['open', 'cancelled'],
+  open: ['closed', 'assigned', 'cancelled'],
+  closed: ['open', 'assigned', 'cancelled'],
+  assigned: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Thrown for an illegal status change; `status` is the HTTP status to report
+ */
+export class EventTransitionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'EventTransitionError';
+    this.status = status;
+  }
+}
+
+interface TransitionOptions {
+  actorId?: string | mongoose.Types.ObjectId;
+  reason?: string;
+  session?: mongoose.ClientSession;
+  // Set by the draw itself; `assigned` cannot be reached any other way
+  viaDraw?: boolean;
+}
+
+/**
+ * Whether the event has (or had) assignments that participants can see
+ */
+export const hasAssignments = (event: Pick<IEvent, 'status'>): boolean =>
+  event.status === 'assigned' || event.status === 'completed';
+
+/**
+ * Throw an EventTransitionError explaining why the event cannot move to `to`
+ */
+export const assertTransition = (
+  event: Pick<IEvent, 'status' | 'registrationDeadline'>,
+  to: EventStatus,
+  options: Pick<TransitionOptions, 'viaDraw'> = {}
+): void => {
+  const from = event.status;
+
+  if (from === to) {
+    throw new EventTransitionError(`Event is already ${from}`);
+  }
+
+  if (!EVENT_TRANSITIONS[from].includes(to)) {
+    const allowed = EVENT_TRANSITIONS[from];
+    throw new EventTransitionError(
+      `Cannot change event status from ${from} to ${to}` +
+        (allowed.length ? ` (allowed: ${allowed.join(', ')})` : ` (${from} is final)`)
+    );
+  }
+
+  if (to === 'assigned' && !options.viaDraw) {
+    throw new EventTransitionError('Run the draw to assign an event');
+  }
+
+  if (from === 'closed' && to === 'open' && event.registrationDeadline <= new Date()) {
+    throw new EventTransitionError(
+      'Move the registration deadline into the future before reopening'
+    );
+  }
+};
+
+/**
+ * Change an event's status and record the change in its history.
+ * Saves the event (within `session` when given).
+ */
+export const transitionEvent = async (
+  event: IEvent,
+  to: EventStatus,
+  options: TransitionOptions = {}
+): Promise<void> => {
+  assertTransition(event, to, options);
+
+  const from = event.status;
+  event.status = to;
+  await event.save({ session: options.session });
+
+  await EventTransition.create(
+    [
+      {
+        eventId: event._id,
+        from,
+        to,
+        actorId: options.actorId,
+        reason: options.reason,
+      },
+    ],
+    { session: options.session }
+  );
+};
@@ -0,0 +1,211 @@
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+export type ExportValue = string | number | Date | null | undefined;
+
+/**
+ * One exportable field: `key` is what clients pass in ?fields= and the
+ * JSON property name, `header` the CSV/XLSX column title
+ */
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => ExportValue;
+}
+
+/**
+ * Thrown for an export that cannot be served or CSV that cannot be parsed;
+ * `status` is the HTTP status to report
+ */
+export class ExportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ExportError';
+    this.status = status;
+  }
+}
+
+/**
+ * Pick the columns named in a comma separated ?fields= list, in that order.
+ * Without a list every column is exported.
+ */
+export const selectColumns = <T>(
+  columns: ExportColumn<T>[],
+  fields?: string
+): ExportColumn<T>[] => {
+  if (!fields) {
+    return columns;
+  }
+
+  const keys = fields
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+  const unknown = keys.filter((key) => !columns.some((c) => c.key === key));
+  if (unknown.length > 0) {
+    throw new ExportError(
+      `Unknown fields: ${unknown.join(', ')}. ` +
+        `Available fields: ${columns.map((c) => c.key).join(', ')}`
+    );
+  }
+
+  return [...new Set(keys)].map((key) => columns.find((c) => c.key === key)!);
+};
+
+const formatValue = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+/**
+ * Quote a CSV field as RFC 4180 requires: fields containing a comma,
+ * quote or line break are wrapped in quotes with quotes doubled.
+ * Text starting with a formula character is prefixed with ' so
+ * spreadsheets do not evaluate user content.
+ */
+export const escapeCSVField = (value: ExportValue): string => {
+  let text = formatValue(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV: a header row, CRLF line endings
+ */
+export const toCSV = <T>(columns: ExportColumn<T>[], rows: T[]): string =>
+  [
+    columns.map((c) => escapeCSVField(c.header)),
+    ...rows.map((row) => columns.map((c) => escapeCSVField(c.value(row)))),
+  ]
+    .map((fields) => fields.join(','))
+    .join('\r\n') + '\r\n';
+
+/**
+ * Parse RFC 4180 CSV into records of fields, the inverse of toCSV.
+ * Accepts LF as well as CRLF line endings, a leading byte order mark and
+ * quoted fields spanning lines. Blank lines are skipped.
+ */
+export const parseCSV = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ExportError('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+export const toJSON = <T>(columns: ExportColumn<T>[], rows: T[]) =>
+  rows.map((row) => Object.fromEntries(columns.map((c) => [c.key, c.value(row) ?? null])));
+
+export const toXLSX = async <T>(
+  columns: ExportColumn<T>[],
+  rows: T[],
+  sheetName: string
+): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const sheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+
+  sheet.columns = columns.map((c) => ({ header: c.header, key: c.key, width: 20 }));
+  sheet.getRow(1).font = { bold: true };
+  rows.forEach((row) =>
+    sheet.addRow(Object.fromEntries(columns.map((c) => [c.key, c.value(row) ?? null])))
+  );
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+/**
+ * Reduce a name to a safe ASCII filename: accents are dropped and anything
+ * else outside [a-z0-9] becomes a dash
+ */
+export const toFilename = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'export';
+
+interface ExportOptions<T> {
+  format: ExportFormat;
+  fields?: string;
+  filename: string;
+  sheetName: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+/**
+ * Send rows as a CSV, XLSX or JSON file download.
+ * Throws ExportError for unknown fields before anything is sent.
+ */
+export const sendExport = async <T>(res: Response, options: ExportOptions<T>) => {
+  const columns = selectColumns(options.columns, options.fields);
+  const filename = `${toFilename(options.filename)}.${options.format}`;
+
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (options.format === 'xlsx') {
+    res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.send(await toXLSX(columns, options.rows, options.sheetName));
+  } else if (options.format === 'json') {
+    res.type('application/json');
+    res.send(JSON.stringify(toJSON(columns, options.rows), null, 2));
+  } else {
+    // The byte order mark makes Excel read the file as UTF-8
+    res.type('text/csv; charset=utf-8');
+    res.send('\uFEFF' + toCSV(columns, options.rows));
+  }
+};
@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import Assignment, {
+  AssignmentRole,
+  GIFT_STATUSES,
+  GiftStatus,
+  IAssignment,
+} from '../models/Assignment';
+import { PopulatedUser } from '../models/User';
+import { notifyGiftReceived } from './notifications';
+
+/**
+ * Thrown when a gift status change is not allowed; `status` is the HTTP status to report
+ */
+export class GiftStatusError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'GiftStatusError';
+    this.status = status;
+  }
+}
+
+const SANTA_STATUSES: GiftStatus[] = ['purchased', 'shipped', 'delivered'];
+
+/**
+ * Move a gift forward to `status`. Steps may be skipped (a gift handed over
+ * in person is never shipped) but never undone. A tracking number can be
+ * added with `shipped`, or later while the gift is still shipped.
+ */
+export const advanceGiftStatus = async (
+  assignment: IAssignment,
+  role: AssignmentRole,
+  status: GiftStatus,
+  trackingNumber?: string
+): Promise<IAssignment> => {
+  const allowed = role === 'santa' ? SANTA_STATUSES : ['received'];
+  if (!allowed.includes(status)) {
+    throw new GiftStatusError(
+      role === 'santa'
+        ? 'Only the receiver can confirm a gift was received'
+        : 'Receivers can only confirm a gift was received',
+      403
+    );
+  }
+
+  if (trackingNumber && status !== 'shipped') {
+    throw new GiftStatusError('A tracking number can only be added when shipping');
+  }
+
+  const current = GIFT_STATUSES.indexOf(assignment.giftStatus);
+  const next = GIFT_STATUSES.indexOf(status);
+  const addingTracking = status === assignment.giftStatus && status === 'shipped';
+
+  if (next <= current && !addingTracking) {
+    throw new GiftStatusError(`Gift is already marked as ${assignment.giftStatus}`);
+  }
+
+  assignment.giftStatus = status;
+  if (trackingNumber) {
+    assignment.trackingNumber = trackingNumber;
+  }
+  assignment.giftUpdatedAt = new Date();
+  await assignment.save();
+
+  if (status === 'received') {
+    await notifyGiftReceived(assignment);
+  }
+
+  return assignment;
+};
+
+const percentOf = (count: number, total: number): number =>
+  total ? Math.round((count / total) * 100) : 0;
+
+/**
+ * Aggregate gift progress for an event: a count per status plus the santas
+ * who have not bought anything yet, so organisers know who to chase
+ */
+export const getFulfilmentProgress = async (eventId: mongoose.Types.ObjectId) => {
+  const assignments = await Assignment.find({ eventId })
+    .populate<{ santaUserId: PopulatedUser }>('santaUserId', 'name email')
+    .sort({ receiverNumber: 1 });
+
+  const counts = Object.fromEntries(GIFT_STATUSES.map((s) => [s, 0])) as Record<
+    GiftStatus,
+    number
+  >;
+  assignments.forEach((a) => counts[a.giftStatus]++);
+
+  const total = assignments.length;
+  // Santas whose account has been deleted cannot be chased
+  const notStarted = assignments
+    .filter((a) => a.giftStatus === 'not-started' && a.santaUserId)
+    .map((a) => ({
+      id: a.santaUserId._id,
+      name: a.santaUserId.name,
+      email: a.santaUserId.email,
+      receiverNumber: a.receiverNumber,
+    }));
+
+  return {
+    total,
+    counts,
+    // Purchased or further along
+    purchasedPercent: percentOf(total - counts['not-started'], total),
+    receivedPercent: percentOf(counts.received, total),
+    notStarted,
+  };
+};
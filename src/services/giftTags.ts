@@ -0,0 +1,84 @@
+import { IEvent } from '../models/Event';
+import { escapeHtml } from './emailTemplates';
+import { getAllAssignments } from './secretSanta';
+
+type EventAssignments = Awaited<ReturnType<typeof getAllAssignments>>;
+
+// A4 pages; browsers print these directly or save them as PDF
+const PAGE_STYLE = `
+  @page { size: A4; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: sans-serif; margin: 0; color: #222; }
+  h1 { font-size: 18pt; margin: 0 0 4mm; }
+  @media screen { body { max-width: 210mm; margin: 8mm auto; } }
+`;
+
+const TAG_STYLE = `
+  .tags { display: flex; flex-wrap: wrap; gap: 4mm; }
+  .tag {
+    width: 58mm; height: 40mm; border: 1px dashed #999; border-radius: 3mm;
+    padding: 3mm; text-align: center; display: flex; flex-direction: column;
+    justify-content: space-between; break-inside: avoid; page-break-inside: avoid;
+  }
+  .event { font-size: 9pt; color: #666; }
+  .label { font-size: 24pt; font-weight: bold; }
+  .from { font-size: 9pt; font-style: italic; }
+`;
+
+const LIST_STYLE = `
+  table { width: 100%; border-collapse: collapse; font-size: 11pt; }
+  th, td { border: 1px solid #999; padding: 2mm 3mm; text-align: left; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; page-break-inside: avoid; }
+  .check { width: 15mm; }
+`;
+
+const page = (title: string, style: string, body: string): string =>
+  '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+  `<title>${escapeHtml(title)}</title>` +
+  `<style>${PAGE_STYLE}${style}</style>` +
+  `</head><body>${body}</body></html>`;
+
+/**
+ * Printable sheet with one cut-out tag per gift. Tags only carry the
+ * receiver label, so santas can label a gift without knowing who it is for.
+ */
+export const renderGiftTags = (event: IEvent, assignments: EventAssignments): string =>
+  page(
+    `${event.name} - gift tags`,
+    TAG_STYLE,
+    '<div class="tags">' +
+      assignments
+        .map(
+          (a) =>
+            '<div class="tag">' +
+            `<div class="event">${escapeHtml(event.name)}</div>` +
+            `<div class="label">${escapeHtml(a.receiverLabel)}</div>` +
+            '<div class="from">From your Secret Santa</div>' +
+            '</div>'
+        )
+        .join('') +
+      '</div>'
+  );
+
+/**
+ * Host's master list of which receiver each label belongs to, in label order.
+ * Santas are left out, so the list can be used at the party without
+ * spoiling who gave what.
+ */
+export const renderMasterList = (event: IEvent, assignments: EventAssignments): string =>
+  page(
+    `${event.name} - master list`,
+    LIST_STYLE,
+    `<h1>${escapeHtml(event.name)} - master list</h1>` +
+      '<table><thead><tr><th>Label</th><th>Receiver</th><th class="check">Handed out</th>' +
+      '</tr></thead><tbody>' +
+      assignments
+        .map(
+          (a) =>
+            `<tr><td>${escapeHtml(a.receiverLabel)}</td>` +
+            `<td>${escapeHtml(a.receiver.name)}</td><td class="check"></td></tr>`
+        )
+        .join('') +
+      '</tbody></table>'
+  );
@@ -0,0 +1,49 @@
+import { LabelScheme } from '../models/Event';
+
+// Short, distinct words that are easy to read off a gift tag
+export const LABEL_WORDS = [
+  'ANGEL', 'APPLE', 'BELL', 'BERRY', 'BOOTS', 'BOW', 'CANDY', 'CAROL',
+  'CEDAR', 'CHIME', 'CLOVE', 'COCOA', 'COMET', 'CUPID', 'DANCE', 'DOVE',
+  'ELF', 'EMBER', 'FIG', 'FIR', 'FLAKE', 'FROST', 'GIFT', 'GLOW',
+  'HOLLY', 'ICE', 'IVY', 'JOLLY', 'LAMP', 'LIGHT', 'MINT', 'MITTS',
+  'MOON', 'NOEL', 'NUT', 'OWL', 'PEAR', 'PINE', 'PLUM', 'POLAR',
+  'ROBIN', 'SANTA', 'SCARF', 'SHINE', 'SKATE', 'SLED', 'SLEET', 'SNOW',
+  'SOCK', 'SPICE', 'STAR', 'SUGAR', 'SWAN', 'TINSEL', 'TOY', 'TREE',
+  'VIXEN', 'WHITE', 'WING', 'WINTER', 'WISH', 'WOOL', 'WREATH', 'YULE',
+];
+
+export const LABEL_EMOJI = [
+  '🎄', '🎁', '⭐', '⛄', '🦌', '🔔', '🕯️', '🍪',
+  '🧦', '🧣', '🎅', '❄️', '🍭', '🦉', '🐧', '🌟',
+  '🍊', '🎀', '🧤', '🐻',
+];
+
+/**
+ * Turn a receiver number into a label for the event's scheme.
+ * Labels are derived from the number alone, so they are stable, unique
+ * within an event and change with the scheme without touching the draw.
+ * Word codes get a -2, -3, ... suffix and emoji pairs a number once an
+ * event outgrows the list.
+ */
+export const formatReceiverLabel = (
+  receiverNumber: number,
+  scheme: LabelScheme = 'numeric'
+): string => {
+  const index = receiverNumber - 1;
+
+  if (scheme === 'words') {
+    const word = LABEL_WORDS[index % LABEL_WORDS.length];
+    const round = Math.floor(index / LABEL_WORDS.length);
+    return round ? `${word}-${round + 1}` : word;
+  }
+
+  if (scheme === 'emoji') {
+    const size = LABEL_EMOJI.length;
+    const pair =
+      LABEL_EMOJI[Math.floor(index / size) % size] + LABEL_EMOJI[index % size];
+    const round = Math.floor(index / (size * size));
+    return round ? `${pair} ${round + 1}` : pair;
+  }
+
+  return `#${receiverNumber}`;
+};
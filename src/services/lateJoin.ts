@@ -0,0 +1,195 @@
+import mongoose from 'mongoose';
+import Assignment, { IAssignment } from '../models/Assignment';
+import Event, { IEvent } from '../models/Event';
+import Exclusion from '../models/Exclusion';
+import LateJoinRequest, { ILateJoinRequest } from '../models/LateJoinRequest';
+import Message from '../models/Message';
+import Participant from '../models/Participant';
+import { buildForbiddenMap, shuffleArray } from './matching';
+import { createParticipant } from './participation';
+import {
+  notifyAssignmentsReady,
+  notifyJoined,
+  notifyReceiverChanged,
+} from './notifications';
+
+/**
+ * Thrown when a late join cannot go ahead; `status` is the HTTP status to report
+ */
+export class LateJoinError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'LateJoinError';
+    this.status = status;
+  }
+}
+
+/**
+ * Pick the santa A whose pair A -> B becomes A -> newcomer -> B.
+ * `receiverOf` maps santa id -> receiver id. Returns null if no pair can
+ * take the newcomer under the rules.
+ */
+export const chooseSplicePoint = (
+  receiverOf: Map<string, string>,
+  newcomerId: string,
+  canDraw: (santa: string, receiver: string) => boolean,
+  random: () => number = Math.random
+): string | null => {
+  const santas = shuffleArray([...receiverOf.keys()], random);
+  return (
+    santas.find(
+      (santaId) =>
+        canDraw(santaId, newcomerId) && canDraw(newcomerId, receiverOf.get(santaId)!)
+    ) || null
+  );
+};
+
+/**
+ * Ask to join an event whose names have already been drawn
+ */
+export const requestLateJoin = async (
+  event: IEvent,
+  userId: string,
+  message?: string
+): Promise<ILateJoinRequest> => {
+  if (event.status !== 'assigned') {
+    throw new LateJoinError(
+      event.status === 'open'
+        ? 'Registration is still open; join the event directly'
+        : 'Late joins are only possible once names have been drawn'
+    );
+  }
+
+  if (await Participant.exists({ eventId: event._id, userId })) {
+    throw new LateJoinError('Already joined this event');
+  }
+
+  if (await LateJoinRequest.exists({ eventId: event._id, userId, status: 'pending' })) {
+    throw new LateJoinError('You already asked to join this event');
+  }
+
+  return LateJoinRequest.create({ eventId: event._id, userId, message });
+};
+
+/**
+ * Approve a late join: add the user and splice them into the draw as
+ * A -> newcomer -> B. Only A's assignment changes; B keeps their receiver
+ * number and the newcomer gets a fresh one. Everything happens in one
+ * transaction and emails go out only once it has committed.
+ */
+export const approveLateJoin = async (
+  event: IEvent,
+  request: ILateJoinRequest,
+  approverId: string
+): Promise<void> => {
+  if (request.status !== 'pending') {
+    throw new LateJoinError(`Request has already been ${request.status}`);
+  }
+
+  if (event.status !== 'assigned') {
+    throw new LateJoinError('Late joins are only possible once names have been drawn');
+  }
+
+  const eventId = event._id as mongoose.Types.ObjectId;
+  const newcomerId = request.userId.toString();
+  const decidedAt = new Date();
+  let splice: IAssignment | undefined;
+
+  const session = await mongoose.startSession();
+  try {
+    // withTransaction retries on write conflicts, so the loser of two
+    // concurrent approvals runs again against the winner's assignments
+    await session.withTransaction(async () => {
+      // Written first so concurrent approvals for the event conflict here
+      await Event.updateOne(
+        { _id: eventId },
+        { $set: { updatedAt: decidedAt, ...(event.draw && { 'draw.amendedAt': decidedAt }) } },
+        { session }
+      );
+
+      const decided = await LateJoinRequest.updateOne(
+        { _id: request._id, status: 'pending' },
+        {
+          status: 'approved',
+          decidedBy: new mongoose.Types.ObjectId(approverId),
+          decidedAt,
+        },
+        { session }
+      );
+      if (!decided.modifiedCount) {
+        throw new LateJoinError('Request has already been decided');
+      }
+
+      const assignments = await Assignment.find({ eventId }).session(session);
+      const receiverOf = new Map(
+        assignments.map((a) => [a.santaUserId.toString(), a.receiverUserId.toString()])
+      );
+      const exclusions = await Exclusion.find({ eventId }).session(session);
+      const forbidden = buildForbiddenMap(
+        [...receiverOf.keys(), newcomerId],
+        exclusions.map((e) => ({
+          type: e.type,
+          userIds: e.userIds.map((id) => id.toString()),
+        }))
+      );
+
+      const santaId = chooseSplicePoint(
+        receiverOf,
+        newcomerId,
+        (santa, receiver) => !forbidden.get(santa)!.has(receiver)
+      );
+      if (!santaId) {
+        throw new LateJoinError(
+          'No existing pair can take the new participant under the exclusion rules',
+          422
+        );
+      }
+
+      // Adds the membership (and checks the user exists and has not joined yet)
+      await createParticipant(event, newcomerId, session);
+
+      splice = assignments.find((a) => a.santaUserId.toString() === santaId)!;
+      const receiverId = splice.receiverUserId;
+      const receiverNumber = splice.receiverNumber;
+      const freshNumber = Math.max(...assignments.map((a) => a.receiverNumber)) + 1;
+
+      // A -> newcomer first, which frees B and B's number for newcomer -> B
+      splice.receiverUserId = request.userId;
+      splice.receiverNumber = freshNumber;
+      splice.giftStatus = 'not-started';
+      splice.trackingNumber = undefined;
+      splice.giftUpdatedAt = undefined;
+      await splice.save({ session });
+
+      await Assignment.create(
+        [
+          {
+            eventId,
+            santaUserId: request.userId,
+            receiverUserId: receiverId,
+            receiverNumber,
+          },
+        ],
+        { session }
+      );
+
+      // A's thread was with B, who now has a different santa
+      await Message.deleteMany({ assignmentId: splice._id }).session(session);
+    });
+  } finally {
+    session.endSession();
+  }
+
+  request.status = 'approved';
+  request.decidedBy = new mongoose.Types.ObjectId(approverId);
+  request.decidedAt = decidedAt;
+  if (event.draw) {
+    event.draw.amendedAt = decidedAt;
+  }
+
+  await notifyJoined(event, request.userId);
+  await notifyReceiverChanged(splice!);
+  await notifyAssignmentsReady(eventId, [request.userId]);
+};
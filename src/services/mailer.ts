@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
+import config from '../config';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Anything that can deliver an email. `send` rejects if delivery failed.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Sends through an SMTP server
+ */
+export class SmtpTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor(private from: string, options: SMTPTransport.Options) {
+    this.transporter = nodemailer.createTransport(options);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Writes each email as an .eml file (openable in any mail client) instead
+ * of sending it. For development and tests.
+ */
+export class FileTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor(private from: string, private dir: string) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const safeTo = message.to.replace(/[^a-z0-9@.-]/gi, '_');
+    // The random part keeps two emails in the same millisecond apart
+    const unique = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    await fs.writeFile(path.join(this.dir, `${unique}-${safeTo}.eml`), info.message as Buffer);
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+const createTransportFromConfig = (): EmailTransport => {
+  const { email } = config;
+
+  if (email.transport === 'smtp') {
+    return new SmtpTransport(email.from, {
+      host: email.smtpHost,
+      port: email.smtpPort,
+      secure: email.smtpSecure,
+      ...(email.smtpUser && { auth: { user: email.smtpUser, pass: email.smtpPass } }),
+    });
+  }
+
+  if (email.transport === 'file') {
+    return new FileTransport(email.from, email.outboxDir);
+  }
+
+  throw new Error(`EMAIL_TRANSPORT must be "smtp" or "file" (got "${email.transport}")`);
+};
+
+/**
+ * The configured transport, created on first use. Throws if no valid
+ * transport is configured; the server calls this at startup.
+ */
+export const getEmailTransport = (): EmailTransport => {
+  if (!transport) {
+    transport = createTransportFromConfig();
+  }
+  return transport;
+};
+
+/**
+ * Replace the transport, e.g. with a fake in tests
+ */
+export const setEmailTransport = (replacement: EmailTransport | null): void => {
+  transport = replacement;
+};
@@ -0,0 +1,367 @@
+import { ExclusionType } from '../models/Exclusion';
+import { AssignmentMode } from '../models/Event';
+
+export interface MatchParticipant {
+  id: string;
+  name: string;
+}
+
+export interface ExclusionRule {
+  type: ExclusionType;
+  userIds: string[];
+}
+
+/**
+ * Bump whenever a change to this module would make an old seed
+ * produce a different draw, so stored receipts stay verifiable
+ */
+export const DRAW_ALGORITHM_VERSION = 1;
+
+/**
+ * Map of santa id -> receiver ids that santa is not allowed to draw
+ */
+export type ForbiddenMap = Map<string, Set<string>>;
+
+export interface GenerateOptions {
+  mode?: AssignmentMode;
+  random?: () => number;
+  maxAttempts?: number;
+  maxSearchSteps?: number;
+}
+
+/**
+ * Thrown when the exclusion rules and draw mode leave no valid way to draw.
+ * Carries a human readable list of reasons for the admin.
+ */
+export class UnsatisfiableDrawError extends Error {
+  status = 422;
+  reasons: string[];
+
+  constructor(reasons: string[]) {
+    super('No valid Secret Santa draw exists with the current rules');
+    this.name = 'UnsatisfiableDrawError';
+    this.reasons = reasons;
+  }
+}
+
+/**
+ * Fisher-Yates shuffle algorithm
+ * Used to randomize the array
+ */
+export const shuffleArray = <T>(array: T[], random: () => number = Math.random): T[] => {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Build the forbidden map for a set of participants.
+ * Everyone is forbidden from drawing themselves; rules that mention
+ * people who are not participating are ignored for those people.
+ */
+export const buildForbiddenMap = (
+  participantIds: string[],
+  rules: ExclusionRule[]
+): ForbiddenMap => {
+  const forbidden: ForbiddenMap = new Map(
+    participantIds.map((id) => [id, new Set([id])])
+  );
+
+  const forbid = (santaId: string, receiverId: string) => {
+    if (forbidden.has(santaId) && forbidden.has(receiverId)) {
+      forbidden.get(santaId)!.add(receiverId);
+    }
+  };
+
+  for (const rule of rules) {
+    if (rule.type === 'pair') {
+      forbid(rule.userIds[0], rule.userIds[1]);
+      continue;
+    }
+
+    // Couples and teams are symmetric: no member may draw another member
+    for (const a of rule.userIds) {
+      for (const b of rule.userIds) {
+        forbid(a, b);
+      }
+    }
+  }
+
+  return forbidden;
+};
+
+const joinNames = (names: string[]): string => {
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
+/**
+ * Find a random perfect matching of santas to allowed receivers using
+ * Kuhn's augmenting path algorithm over shuffled adjacency lists.
+ * If no matching exists, the failing search tree is a Hall's condition
+ * violation (k santas who can only draw from fewer than k receivers),
+ * which is reported as the reason.
+ */
+const findRandomMatching = (
+  participants: MatchParticipant[],
+  forbidden: ForbiddenMap,
+  random: () => number
+): MatchParticipant[] => {
+  const byId = new Map(participants.map((p) => [p.id, p]));
+  const allowed = new Map(
+    participants.map((santa) => [
+      santa.id,
+      shuffleArray(
+        participants.filter((r) => !forbidden.get(santa.id)!.has(r.id)).map((r) => r.id),
+        random
+      ),
+    ])
+  );
+
+  // receiver id -> santa id
+  const matchedSanta = new Map<string, string>();
+
+  const tryAssign = (santaId: string, visited: Set<string>): boolean => {
+    for (const receiverId of allowed.get(santaId)!) {
+      if (visited.has(receiverId)) continue;
+      visited.add(receiverId);
+
+      const current = matchedSanta.get(receiverId);
+      if (current === undefined || tryAssign(current, visited)) {
+        matchedSanta.set(receiverId, santaId);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (const santa of shuffleArray(participants, random)) {
+    const visited = new Set<string>();
+    if (!tryAssign(santa.id, visited)) {
+      // Every visited receiver is held by a santa reachable from this one
+      const receivers = [...visited];
+      const santas = [santa.id, ...receivers.map((r) => matchedSanta.get(r)!)];
+      const santaNames = santas.map((id) => byId.get(id)!.name);
+      const receiverNames = receivers.map((id) => byId.get(id)!.name);
+
+      throw new UnsatisfiableDrawError([
+        `${joinNames(santaNames)} (${santas.length} people) can only draw from ` +
+          `${receiverNames.length ? joinNames(receiverNames) : 'nobody'} ` +
+          `(${receivers.length} people)`,
+      ]);
+    }
+  }
+
+  const receiverOf = new Map<string, string>();
+  matchedSanta.forEach((santaId, receiverId) => receiverOf.set(santaId, receiverId));
+
+  return participants.map((santa) => byId.get(receiverOf.get(santa.id)!)!);
+};
+
+/**
+ * Quick per-person checks that give the most readable explanation
+ * for the common unsatisfiable cases.
+ */
+export const explainUnsatisfiable = (
+  participants: MatchParticipant[],
+  forbidden: ForbiddenMap
+): string[] => {
+  const reasons: string[] = [];
+
+  for (const santa of participants) {
+    const canDraw = participants.some((r) => !forbidden.get(santa.id)!.has(r.id));
+    if (!canDraw) {
+      reasons.push(`${santa.name} is not allowed to draw anyone`);
+    }
+  }
+
+  for (const receiver of participants) {
+    const canBeDrawn = participants.some((s) => !forbidden.get(s.id)!.has(receiver.id));
+    if (!canBeDrawn) {
+      reasons.push(`Nobody is allowed to draw ${receiver.name}`);
+    }
+  }
+
+  return reasons;
+};
+
+const receiversOf = (
+  participants: MatchParticipant[],
+  receiverIds: Map<string, string>
+): MatchParticipant[] => {
+  const byId = new Map(participants.map((p) => [p.id, p]));
+  return participants.map((santa) => byId.get(receiverIds.get(santa.id)!)!);
+};
+
+/**
+ * Turn a chain order into receivers aligned with the participants array:
+ * everyone gives to the next person in the chain, the last to the first
+ */
+const chainToReceivers = (
+  participants: MatchParticipant[],
+  chain: MatchParticipant[]
+): MatchParticipant[] =>
+  receiversOf(
+    participants,
+    new Map(chain.map((p, i) => [p.id, chain[(i + 1) % chain.length].id]))
+  );
+
+const hasReciprocalPair = (
+  participants: MatchParticipant[],
+  receivers: MatchParticipant[]
+): boolean => {
+  const receiverOf = new Map(participants.map((s, i) => [s.id, receivers[i].id]));
+  return participants.some((s) => receiverOf.get(receiverOf.get(s.id)!) === s.id);
+};
+
+/**
+ * Randomized backtracking search for a Hamiltonian cycle in the allowed graph.
+ * Returns the chain order, or null if none was found within the step budget.
+ */
+const searchChain = (
+  participants: MatchParticipant[],
+  forbidden: ForbiddenMap,
+  random: () => number,
+  maxSteps: number
+): MatchParticipant[] | null => {
+  const start = shuffleArray(participants, random)[0];
+  const path = [start];
+  const used = new Set([start.id]);
+  let steps = 0;
+
+  const extend = (): boolean => {
+    if (++steps > maxSteps) return false;
+
+    const last = path[path.length - 1];
+    if (path.length === participants.length) {
+      return !forbidden.get(last.id)!.has(start.id);
+    }
+
+    for (const next of shuffleArray(participants, random)) {
+      if (used.has(next.id) || forbidden.get(last.id)!.has(next.id)) continue;
+
+      path.push(next);
+      used.add(next.id);
+      if (extend()) return true;
+      path.pop();
+      used.delete(next.id);
+    }
+    return false;
+  };
+
+  return extend() ? path : null;
+};
+
+/**
+ * Randomized backtracking search for a draw without any A -> B, B -> A pairs.
+ * Returns receivers aligned with participants, or null within the step budget.
+ */
+const searchWithoutReciprocal = (
+  participants: MatchParticipant[],
+  forbidden: ForbiddenMap,
+  random: () => number,
+  maxSteps: number
+): MatchParticipant[] | null => {
+  const santas = shuffleArray(participants, random);
+  const receiverOf = new Map<string, string>();
+  const taken = new Set<string>();
+  let steps = 0;
+
+  const assign = (index: number): boolean => {
+    if (++steps > maxSteps) return false;
+    if (index === santas.length) return true;
+
+    const santa = santas[index];
+    for (const receiver of shuffleArray(participants, random)) {
+      if (
+        taken.has(receiver.id) ||
+        forbidden.get(santa.id)!.has(receiver.id) ||
+        receiverOf.get(receiver.id) === santa.id
+      ) {
+        continue;
+      }
+
+      receiverOf.set(santa.id, receiver.id);
+      taken.add(receiver.id);
+      if (assign(index + 1)) return true;
+      receiverOf.delete(santa.id);
+      taken.delete(receiver.id);
+    }
+    return false;
+  };
+
+  return assign(0) ? receiversOf(participants, receiverOf) : null;
+};
+
+/**
+ * Generate a random assignment honouring the forbidden map and draw mode.
+ * Returns receivers aligned by index with the participants array.
+ *
+ * Uniform rejection sampling is tried first; if that keeps failing
+ * (tight constraints) a search decides the draw, and throws
+ * UnsatisfiableDrawError when no valid draw exists.
+ */
+export const generateAssignment = (
+  participants: MatchParticipant[],
+  forbidden: ForbiddenMap,
+  options: GenerateOptions = {}
+): MatchParticipant[] => {
+  const {
+    mode = 'random',
+    random = Math.random,
+    maxAttempts = 1000,
+    maxSearchSteps = 100000,
+  } = options;
+
+  if (participants.length < 2) {
+    throw new Error('Need at least 2 participants for Secret Santa');
+  }
+
+  if (mode === 'pairs-avoid-reciprocal' && participants.length === 2) {
+    throw new UnsatisfiableDrawError([
+      'With only 2 participants they always draw each other',
+    ]);
+  }
+
+  const quickReasons = explainUnsatisfiable(participants, forbidden);
+  if (quickReasons.length > 0) {
+    throw new UnsatisfiableDrawError(quickReasons);
+  }
+
+  const isAllowed = (receivers: MatchParticipant[]) =>
+    participants.every((santa, i) => !forbidden.get(santa.id)!.has(receivers[i].id));
+
+  for (let attempts = 0; attempts < maxAttempts; attempts++) {
+    const shuffled = shuffleArray(participants, random);
+    const receivers =
+      mode === 'single-cycle' ? chainToReceivers(participants, shuffled) : shuffled;
+
+    if (!isAllowed(receivers)) continue;
+    if (mode === 'pairs-avoid-reciprocal' && hasReciprocalPair(participants, receivers)) {
+      continue;
+    }
+    return receivers;
+  }
+
+  // Any valid draw needs a perfect matching; this also explains failures
+  const matching = findRandomMatching(participants, forbidden, random);
+  if (mode === 'random') {
+    return matching;
+  }
+
+  if (mode === 'single-cycle') {
+    const chain = searchChain(participants, forbidden, random, maxSearchSteps);
+    if (chain) return chainToReceivers(participants, chain);
+  } else {
+    const receivers = searchWithoutReciprocal(participants, forbidden, random, maxSearchSteps);
+    if (receivers) return receivers;
+  }
+
+  throw new UnsatisfiableDrawError([
+    `No ${mode} draw through all ${participants.length} participants ` +
+      'satisfies the exclusion rules',
+  ]);
+};
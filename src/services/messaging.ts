@@ -0,0 +1,96 @@
+import { AssignmentRole, IAssignment } from '../models/Assignment';
+import { LabelScheme } from '../models/Event';
+import Message, { IMessage } from '../models/Message';
+import { findUserAssignment } from './secretSanta';
+import { formatReceiverLabel } from './labels';
+
+/**
+ * Shape a message for one side of the thread. The santa is only ever
+ * "Your Santa" and the receiver only their receiver label.
+ */
+const formatMessage = (
+  message: IMessage,
+  viewer: AssignmentRole,
+  assignment: IAssignment,
+  labelScheme: LabelScheme
+) => {
+  let from = 'You';
+  if (message.sender !== viewer) {
+    from =
+      message.sender === 'santa'
+        ? 'Your Santa'
+        : `Receiver ${formatReceiverLabel(assignment.receiverNumber, labelScheme)}`;
+  }
+
+  return {
+    id: message._id,
+    from,
+    mine: message.sender === viewer,
+    body: message.body,
+    createdAt: message.createdAt,
+    readAt: message.readAt,
+  };
+};
+
+/**
+ * Get the thread for one side, oldest first, and mark the other side's
+ * messages as read. `unreadCount` is the number that were unread before.
+ */
+export const getThread = async (
+  assignment: IAssignment,
+  viewer: AssignmentRole,
+  labelScheme: LabelScheme = 'numeric'
+) => {
+  const messages = await Message.find({ assignmentId: assignment._id }).sort({
+    createdAt: 1,
+  });
+
+  const unread = messages.filter((m) => m.sender !== viewer && !m.readAt);
+  if (unread.length > 0) {
+    await Message.updateMany(
+      { _id: { $in: unread.map((m) => m._id) } },
+      { readAt: new Date() }
+    );
+  }
+
+  return {
+    messages: messages.map((m) => formatMessage(m, viewer, assignment, labelScheme)),
+    unreadCount: unread.length,
+  };
+};
+
+export const sendMessage = async (
+  assignment: IAssignment,
+  sender: AssignmentRole,
+  body: string,
+  labelScheme: LabelScheme = 'numeric'
+) => {
+  const message = await Message.create({
+    eventId: assignment.eventId,
+    assignmentId: assignment._id,
+    sender,
+    body,
+  });
+
+  return formatMessage(message, sender, assignment, labelScheme);
+};
+
+/**
+ * Unread message counts for a user in an event, for both of their threads
+ */
+export const countUnread = async (eventId: string, userId: string) => {
+  const [asSanta, asReceiver] = await Promise.all(
+    (['santa', 'receiver'] as AssignmentRole[]).map(async (role) => {
+      const assignment = await findUserAssignment(eventId, userId, role);
+      if (!assignment) return 0;
+
+      return Message.countDocuments({
+        assignmentId: assignment._id,
+        sender: role === 'santa' ? 'receiver' : 'santa',
+        readAt: { $exists: false },
+      });
+    })
+  );
+
+  return { asSanta, asReceiver, total: asSanta + asReceiver };
+};
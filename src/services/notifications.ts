@@ -0,0 +1,249 @@
+import mongoose from 'mongoose';
+import OutboxEmail, { IOutboxEmail } from '../models/OutboxEmail';
+import Event, { IEvent } from '../models/Event';
+import User, { IUser, PopulatedUser } from '../models/User';
+import Participant from '../models/Participant';
+import Assignment, { IAssignment } from '../models/Assignment';
+import config from '../config';
+import { getEmailTransport } from './mailer';
+import {
+  assignmentReadyEmail,
+  deadlineReminderEmail,
+  emailVerificationEmail,
+  giftReceivedEmail,
+  joinConfirmationEmail,
+  passwordChangedEmail,
+  PasswordChangeKeys,
+  passwordResetEmail,
+  receiverChangedEmail,
+  RenderedEmail,
+} from './emailTemplates';
+import { formatReceiverLabel } from './labels';
+
+// Retry delays after each failed attempt; the email fails for good after the last
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+// An email still `sending` this long after it was claimed is taken to be
+// abandoned; until then another instance may be sending it
+const EMAIL_LEASE_MS = 10 * 60_000;
+
+/**
+ * Put an email in the outbox; it is sent by the next outbox run
+ */
+export const queueEmail = async (
+  to: string,
+  email: RenderedEmail
+): Promise<IOutboxEmail> => {
+  return OutboxEmail.create({ to, ...email });
+};
+
+const eventInfo = (event: IEvent) => ({
+  id: event._id.toString(),
+  name: event.name,
+  budgetLimit: event.budgetLimit,
+  registrationDeadline: event.registrationDeadline,
+});
+
+/**
+ * Notifications are best effort: a failure to queue one is logged and
+ * never fails the action that triggered it
+ */
+const safely = async (label: string, send: () => Promise<unknown>): Promise<void> => {
+  try {
+    await send();
+  } catch (error) {
+    console.error(`Error queueing ${label} email:`, error);
+  }
+};
+
+export const notifyJoined = (event: IEvent, userId: mongoose.Types.ObjectId) =>
+  safely('join confirmation', async () => {
+    const user = await User.findById(userId);
+    if (user) {
+      await queueEmail(user.email, joinConfirmationEmail(user.name, eventInfo(event)));
+    }
+  });
+
+export const notifyDeadlineReminder = (event: IEvent) =>
+  safely('deadline reminder', async () => {
+    const participants = await Participant.find({ eventId: event._id }).populate<{
+      userId: PopulatedUser | null;
+    }>('userId', 'name email');
+    for (const { userId: user } of participants) {
+      // The user may have been deleted
+      if (!user) continue;
+      await queueEmail(user.email, deadlineReminderEmail(user.name, eventInfo(event)));
+    }
+  });
+
+/**
+ * Tell every santa (or only `santaIds`) their receiver label and the
+ * receiver's wishlist
+ */
+export const notifyAssignmentsReady = (
+  eventId: mongoose.Types.ObjectId,
+  santaIds?: mongoose.Types.ObjectId[]
+) =>
+  safely('assignment ready', async () => {
+    const event = await Event.findById(eventId);
+    if (!event) return;
+
+    const assignments = await Assignment.find({
+      eventId,
+      ...(santaIds && { santaUserId: { $in: santaIds } }),
+    }).populate<{ santaUserId: PopulatedUser | null }>('santaUserId', 'name email');
+    const participants = await Participant.find({ eventId });
+    const wishlists = new Map(participants.map((p) => [p.userId.toString(), p.wishlist]));
+
+    for (const a of assignments) {
+      const santa = a.santaUserId;
+      if (!santa) continue;
+      await queueEmail(
+        santa.email,
+        assignmentReadyEmail(
+          santa.name,
+          eventInfo(event),
+          formatReceiverLabel(a.receiverNumber, event.labelScheme),
+          wishlists.get(a.receiverUserId.toString()) || []
+        )
+      );
+    }
+  });
+
+/**
+ * Tell a santa whose receiver changed about their new receiver
+ */
+export const notifyReceiverChanged = (assignment: IAssignment) =>
+  safely('receiver changed', async () => {
+    const [event, santa, receiver] = await Promise.all([
+      Event.findById(assignment.eventId),
+      User.findById(assignment.santaUserId),
+      Participant.findOne({
+        eventId: assignment.eventId,
+        userId: assignment.receiverUserId,
+      }),
+    ]);
+    if (event && santa) {
+      await queueEmail(
+        santa.email,
+        receiverChangedEmail(
+          santa.name,
+          eventInfo(event),
+          formatReceiverLabel(assignment.receiverNumber, event.labelScheme),
+          receiver ? receiver.wishlist : []
+        )
+      );
+    }
+  });
+
+export const notifyGiftReceived = (assignment: IAssignment) =>
+  safely('gift received', async () => {
+    const [event, santa] = await Promise.all([
+      Event.findById(assignment.eventId),
+      User.findById(assignment.santaUserId),
+    ]);
+    if (event && santa) {
+      await queueEmail(
+        santa.email,
+        giftReceivedEmail(
+          santa.name,
+          eventInfo(event),
+          formatReceiverLabel(assignment.receiverNumber, event.labelScheme)
+        )
+      );
+    }
+  });
+
+type AccountUser = Pick<IUser, 'name' | 'email'>;
+
+// Account emails link to the client app with the single-use token in the query
+const accountLink = (path: string, token: string): string =>
+  `${config.clientUrl}/${path}?token=${encodeURIComponent(token)}`;
+
+export const notifyEmailVerification = (user: AccountUser, token: string) =>
+  safely('email verification', () =>
+    queueEmail(
+      user.email,
+      emailVerificationEmail(user.name, accountLink('verify-email', token))
+    )
+  );
+
+export const notifyPasswordReset = (user: AccountUser, token: string) =>
+  safely('password reset', () =>
+    queueEmail(
+      user.email,
+      passwordResetEmail(user.name, accountLink('reset-password', token))
+    )
+  );
+
+export const notifyPasswordChanged = (user: AccountUser, apiKeys?: PasswordChangeKeys) =>
+  safely('password changed', () =>
+    queueEmail(user.email, passwordChangedEmail(user.name, apiKeys))
+  );
+
+const deliver = async (email: IOutboxEmail): Promise<void> => {
+  try {
+    await getEmailTransport().send({
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+    email.status = 'sent';
+    email.sentAt = new Date();
+    email.lastError = undefined;
+  } catch (error) {
+    email.lastError = error instanceof Error ? error.message : String(error);
+
+    const delay = RETRY_DELAYS_MS[email.attempts - 1];
+    if (delay === undefined) {
+      email.status = 'failed';
+      console.error(`Giving up on email ${email._id} to ${email.to}:`, error);
+    } else {
+      email.status = 'pending';
+      email.nextAttemptAt = new Date(Date.now() + delay);
+    }
+  }
+
+  await email.save();
+};
+
+/**
+ * Send every outbox email that is due, claiming each one atomically
+ * (pending -> sending) so it is never sent twice. Returns the number sent.
+ */
+export const processOutbox = async (now: Date = new Date()): Promise<number> => {
+  let sent = 0;
+
+  for (;;) {
+    const email = await OutboxEmail.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { status: 'sending', claimedAt: new Date(), $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!email) break;
+
+    await deliver(email);
+    if (email.status === 'sent') sent++;
+  }
+
+  return sent;
+};
+
+/**
+ * Requeue emails abandoned by an instance that stopped mid-send, giving up
+ * once their retries are used up (a send that keeps crashing the process
+ * must not loop forever). Emails claimed within the lease are left alone.
+ */
+export const recoverInterruptedEmails = async (now: Date = new Date()): Promise<void> => {
+  const abandoned = {
+    status: 'sending',
+    // Also matches emails claimed before claimedAt was recorded
+    claimedAt: { $not: { $gte: new Date(now.getTime() - EMAIL_LEASE_MS) } },
+  };
+
+  await OutboxEmail.updateMany(
+    { ...abandoned, attempts: { $gt: RETRY_DELAYS_MS.length } },
+    { status: 'failed', lastError: 'Interrupted while sending' }
+  );
+  await OutboxEmail.updateMany(abandoned, { status: 'pending' });
+};
@@ -0,0 +1,252 @@
+import mongoose from 'mongoose';
+import { IEvent } from '../models/Event';
+import Exclusion from '../models/Exclusion';
+import Participant from '../models/Participant';
+import User, { EMAIL_PATTERN } from '../models/User';
+import { normalizeEmail } from '../utils/email';
+import { hasAssignments } from './eventLifecycle';
+import { ExportError, parseCSV } from './export';
+import { addParticipant } from './participation';
+
+export const MAX_IMPORT_ROWS = 1000;
+const MAX_WISHLIST_ITEMS = 50;
+
+/**
+ * Thrown when a whole import is rejected (as opposed to single rows);
+ * `status` is the HTTP status to report
+ */
+export class ImportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ImportError';
+    this.status = status;
+  }
+}
+
+export interface ImportRow {
+  // Record number in the file; the header is row 1
+  row: number;
+  name: string;
+  email: string;
+  team: string;
+  wishlist: string[];
+  errors: string[];
+}
+
+export type ImportRowStatus = 'created' | 'linked' | 'already-joined' | 'error';
+
+export interface ImportRowResult {
+  row: number;
+  email: string;
+  name: string;
+  status: ImportRowStatus;
+  errors?: string[];
+}
+
+/**
+ * Parse and validate an import CSV with a header row. `name` and `email`
+ * columns are required, `team` and `wishlist` (titles separated by ;)
+ * are optional; column order and header case do not matter.
+ * Row problems are collected per row rather than thrown.
+ */
+export const parseImportRows = (csv: string): ImportRow[] => {
+  let records: string[][];
+  try {
+    records = parseCSV(csv);
+  } catch (error) {
+    throw new ImportError((error as ExportError).message);
+  }
+
+  if (records.length < 2) {
+    throw new ImportError('The CSV needs a header row and at least one participant');
+  }
+  if (records.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ImportError(
+      `At most ${MAX_IMPORT_ROWS} participants can be imported at once`
+    );
+  }
+
+  const header = records[0].map((h) => h.trim().toLowerCase());
+  const missing = ['name', 'email'].filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new ImportError(`Missing required columns: ${missing.join(', ')}`);
+  }
+
+  const column = (record: string[], name: string): string => {
+    const index = header.indexOf(name);
+    return index === -1 ? '' : (record[index] || '').trim();
+  };
+
+  const seen = new Set<string>();
+
+  return records.slice(1).map((record, index) => {
+    const errors: string[] = [];
+    const name = column(record, 'name');
+    // Stored the way sign-up stores it, so login finds imported users and
+    // a variant of an existing user's address links to that user
+    const email = normalizeEmail(column(record, 'email'));
+    const team = column(record, 'team');
+    const wishlist = column(record, 'wishlist')
+      .split(';')
+      .map((title) => title.trim())
+      .filter(Boolean);
+
+    if (!email) {
+      errors.push('Email is required');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push('Email is not valid');
+    } else if (seen.has(email)) {
+      errors.push('Email appears more than once in the file');
+    }
+    seen.add(email);
+
+    if (name.length > 100) {
+      errors.push('Name must be at most 100 characters');
+    }
+    if (team.length > 100) {
+      errors.push('Team must be at most 100 characters');
+    }
+    if (wishlist.length > MAX_WISHLIST_ITEMS) {
+      errors.push(`A wishlist can have at most ${MAX_WISHLIST_ITEMS} items`);
+    }
+    if (wishlist.some((title) => title.length > 200)) {
+      errors.push('Wishlist titles must be at most 200 characters');
+    }
+
+    return { row: index + 2, name, email, team, wishlist, errors };
+  });
+};
+
+/**
+ * Teams from the file become team exclusions (labelled with the team name)
+ * so colleagues do not draw each other; existing teams gain the new members
+ */
+const applyTeams = async (
+  event: IEvent,
+  members: Map<string, mongoose.Types.ObjectId[]>,
+  dryRun: boolean
+) => {
+  const teams = [];
+
+  for (const [label, userIds] of members) {
+    const existing = await Exclusion.findOne({ eventId: event._id, type: 'team', label });
+    const all = [
+      ...new Set([...(existing?.userIds || []), ...userIds].map((id) => id.toString())),
+    ];
+
+    // A team of one has nobody to avoid
+    if (all.length < 2) {
+      teams.push({ name: label, members: all.length, status: 'skipped' });
+      continue;
+    }
+
+    if (!dryRun) {
+      const userIdsToSave = all.map((id) => new mongoose.Types.ObjectId(id));
+      if (existing) {
+        existing.userIds = userIdsToSave;
+        await existing.save();
+      } else {
+        await Exclusion.create({
+          eventId: event._id,
+          type: 'team',
+          userIds: userIdsToSave,
+          label,
+        });
+      }
+    }
+    teams.push({
+      name: label,
+      members: all.length,
+      status: existing ? 'updated' : 'created',
+    });
+  }
+
+  return teams;
+};
+
+/**
+ * Create or link a user for every valid row and add them to the event.
+ * A wishlist from the file replaces the profile wishlist copied on joining.
+ * With `dryRun` nothing is written and the report says what would happen.
+ */
+export const importParticipants = async (
+  event: IEvent,
+  csv: string,
+  options: { dryRun?: boolean } = {}
+) => {
+  const { dryRun = false } = options;
+
+  if (hasAssignments(event) || event.status === 'cancelled') {
+    throw new ImportError(
+      'Participants can only be imported before assignments have been made'
+    );
+  }
+
+  const rows = parseImportRows(csv);
+  const results: ImportRowResult[] = [];
+  const teamMembers = new Map<string, mongoose.Types.ObjectId[]>();
+
+  for (const row of rows) {
+    const result = (status: ImportRowStatus, errors?: string[]) =>
+      results.push({ row: row.row, email: row.email, name: row.name, status, errors });
+
+    if (row.errors.length > 0) {
+      result('error', row.errors);
+      continue;
+    }
+
+    try {
+      let user = await User.findOne({ email: row.email });
+      if (!user && !row.name) {
+        result('error', ['Name is required for new users']);
+        continue;
+      }
+
+      let status: ImportRowStatus = user ? 'linked' : 'created';
+      if (user && (await Participant.exists({ eventId: event._id, userId: user._id }))) {
+        status = 'already-joined';
+      } else if (!dryRun) {
+        if (!user) {
+          user = await User.create({ name: row.name, email: row.email });
+        }
+
+        const participant = await addParticipant(event, user._id.toString());
+        if (row.wishlist.length > 0) {
+          participant.wishlist = row.wishlist.map((title) => ({
+            title,
+            priority: 'medium',
+          }));
+          await participant.save();
+        }
+      }
+
+      if (row.team) {
+        // In a dry run new users have no id yet; a placeholder keeps team sizes right
+        const memberId = user ? user._id : new mongoose.Types.ObjectId();
+        teamMembers.set(row.team, [...(teamMembers.get(row.team) || []), memberId]);
+      }
+
+      result(status);
+    } catch (error) {
+      result('error', [(error as Error).message]);
+    }
+  }
+
+  const count = (status: ImportRowStatus) =>
+    results.filter((r) => r.status === status).length;
+
+  return {
+    dryRun,
+    summary: {
+      total: results.length,
+      created: count('created'),
+      linked: count('linked'),
+      alreadyJoined: count('already-joined'),
+      failed: count('error'),
+    },
+    rows: results,
+    teams: await applyTeams(event, teamMembers, dryRun),
+  };
+};
@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import Participant, { IParticipant } from '../models/Participant';
+import User from '../models/User';
+import { IEvent } from '../models/Event';
+import { notifyJoined } from './notifications';
+
+/**
+ * Thrown when a user cannot join an event; `status` is the HTTP status to report
+ */
+export class JoinEventError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'JoinEventError';
+    this.status = status;
+  }
+}
+
+/**
+ * Check that an event currently accepts registrations
+ */
+export const assertRegistrationOpen = (event: IEvent): void => {
+  if (event.status !== 'open') {
+    throw new JoinEventError('Event is not open for registration');
+  }
+
+  if (new Date() > event.registrationDeadline) {
+    throw new JoinEventError('Registration deadline has passed');
+  }
+};
+
+/**
+ * Create a user's membership of an event without telling them; pass a
+ * session to create it inside a transaction
+ * The profile wishlist is the starting point for the event's wishlist
+ */
+export const createParticipant = async (
+  event: IEvent,
+  userId: string,
+  session?: mongoose.ClientSession
+): Promise<IParticipant> => {
+  const user = await User.findById(userId).session(session || null);
+  if (!user) {
+    throw new JoinEventError('User not found', 404);
+  }
+
+  const existing = await Participant.findOne({ eventId: event._id, userId: user._id }).session(
+    session || null
+  );
+  if (existing) {
+    throw new JoinEventError('Already joined this event');
+  }
+
+  const [participant] = await Participant.create(
+    [
+      {
+        eventId: event._id,
+        userId: user._id,
+        // Copies get their own ids so event and profile items can be edited separately
+        wishlist: user.wishlist.map((item) => ({
+          title: item.title,
+          description: item.description,
+          url: item.url,
+          estimatedPrice: item.estimatedPrice,
+          priority: item.priority,
+          notes: item.notes,
+        })),
+      },
+    ],
+    { session }
+  );
+
+  return participant;
+};
+
+/**
+ * Add a user to an event and email them a confirmation
+ */
+export const addParticipant = async (
+  event: IEvent,
+  userId: string
+): Promise<IParticipant> => {
+  const participant = await createParticipant(event, userId);
+  await notifyJoined(event, participant.userId);
+  return participant;
+};
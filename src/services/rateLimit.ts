@@ -0,0 +1,225 @@
+import mongoose from 'mongoose';
+import config from '../config';
+import RateLimitCounter from '../models/RateLimitCounter';
+import { recordAudit } from './audit';
+
+// Failed passwords older than this no longer count towards a lockout
+const FAILURE_WINDOW_MS = 15 * 60_000;
+// Lockouts within this long of each other get progressively longer
+const LOCKOUT_HISTORY_MS = 24 * 60 * 60_000;
+// The memory store sweeps out finished windows once it holds this many counters
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+export interface RateLimitCount {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Where rate limit counters live. A counter is forgotten once `resetAt`
+ * has passed.
+ */
+export interface RateLimitStore {
+  // Add one, starting a new window of `windowMs` if the counter has none
+  increment(key: string, windowMs: number, now: Date): Promise<RateLimitCount>;
+  get(key: string, now: Date): Promise<RateLimitCount | null>;
+  set(key: string, value: RateLimitCount): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Keeps counters in this process; the default for a single instance
+ */
+export class MemoryStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCount>();
+
+  async increment(key: string, windowMs: number, now: Date): Promise<RateLimitCount> {
+    const current = await this.get(key, now);
+    const next = current
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+
+    await this.set(key, next);
+    if (this.counters.size > MEMORY_SWEEP_THRESHOLD) {
+      this.sweep(now);
+    }
+    return { ...next };
+  }
+
+  async get(key: string, now: Date): Promise<RateLimitCount | null> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      return null;
+    }
+    return { ...counter };
+  }
+
+  async set(key: string, value: RateLimitCount): Promise<void> {
+    this.counters.set(key, { ...value });
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private sweep(now: Date): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Keeps counters in MongoDB so every instance sees the same counts
+ */
+export class MongoStore implements RateLimitStore {
+  async increment(key: string, windowMs: number, now: Date): Promise<RateLimitCount> {
+    const current = await RateLimitCounter.findOneAndUpdate(
+      { key, resetAt: { $gt: now } },
+      { $inc: { count: 1 } },
+      { new: true }
+    );
+    if (current) {
+      return { count: current.count, resetAt: current.resetAt };
+    }
+
+    try {
+      // Only replaces a finished window; a live one makes the upsert collide
+      const started = await RateLimitCounter.findOneAndUpdate(
+        { key, resetAt: { $lte: now } },
+        { count: 1, resetAt: new Date(now.getTime() + windowMs) },
+        { upsert: true, new: true }
+      );
+      return { count: started.count, resetAt: started.resetAt };
+    } catch (error) {
+      // Another request started the window first; count this one in it
+      if ((error as { code?: number }).code === 11000) {
+        return this.increment(key, windowMs, now);
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string, now: Date): Promise<RateLimitCount | null> {
+    const counter = await RateLimitCounter.findOne({ key, resetAt: { $gt: now } });
+    return counter && { count: counter.count, resetAt: counter.resetAt };
+  }
+
+  async set(key: string, value: RateLimitCount): Promise<void> {
+    await RateLimitCounter.updateOne({ key }, value, { upsert: true });
+  }
+
+  async reset(key: string): Promise<void> {
+    await RateLimitCounter.deleteOne({ key });
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The configured store, created on first use
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = config.rateLimit.store === 'mongo' ? new MongoStore() : new MemoryStore();
+  }
+  return store;
+};
+
+/**
+ * Replace the store, e.g. with a fresh one in tests
+ */
+export const setRateLimitStore = (replacement: RateLimitStore | null): void => {
+  store = replacement;
+};
+
+/**
+ * Whole seconds until `resetAt`, for a Retry-After header; at least 1
+ */
+export const secondsUntil = (resetAt: Date, now: Date = new Date()): number =>
+  Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000));
+
+/**
+ * Thrown while an account is locked after too many failed passwords
+ */
+export class LockoutError extends Error {
+  status = 429;
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super('Too many failed sign-in attempts, please try again later');
+    this.name = 'LockoutError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const failuresKey = (email: string) => `login-failures:${email}`;
+const lockoutsKey = (email: string) => `login-lockouts:${email}`;
+const lockKey = (email: string) => `login-lock:${email}`;
+
+/**
+ * How long the nth lockout within a day lasts: the base doubles each
+ * time, up to the maximum
+ */
+export const lockoutDurationMs = (lockouts: number): number => {
+  const { lockoutBaseMinutes, lockoutMaxMinutes } = config.rateLimit;
+  const minutes = Math.min(lockoutBaseMinutes * 2 ** (lockouts - 1), lockoutMaxMinutes);
+  return minutes * 60_000;
+};
+
+/**
+ * Throw a LockoutError if the account may not sign in yet
+ */
+export const assertNotLockedOut = async (email: string, now = new Date()): Promise<void> => {
+  const lock = await getRateLimitStore().get(lockKey(email), now);
+  if (lock) {
+    throw new LockoutError(secondsUntil(lock.resetAt, now));
+  }
+};
+
+/**
+ * Count a wrong password for an account. Counted by email whether or not
+ * the account exists, so lockouts do not reveal which addresses are
+ * registered. Throws a LockoutError when this failure locks the account.
+ */
+export const recordLoginFailure = async (
+  email: string,
+  context: { userId?: mongoose.Types.ObjectId; ip?: string },
+  now = new Date()
+): Promise<void> => {
+  const rateLimitStore = getRateLimitStore();
+
+  const failures = await rateLimitStore.increment(failuresKey(email), FAILURE_WINDOW_MS, now);
+  if (failures.count < config.rateLimit.loginMaxFailures) {
+    return;
+  }
+
+  const lockouts = await rateLimitStore.increment(lockoutsKey(email), LOCKOUT_HISTORY_MS, now);
+  const lockedUntil = new Date(now.getTime() + lockoutDurationMs(lockouts.count));
+  await rateLimitStore.set(lockKey(email), { count: lockouts.count, resetAt: lockedUntil });
+  await rateLimitStore.reset(failuresKey(email));
+
+  await recordAudit({
+    action: 'auth.lockout',
+    ip: context.ip,
+    details: {
+      email,
+      userId: context.userId,
+      failures: failures.count,
+      lockout: lockouts.count,
+      lockedUntil,
+    },
+  });
+
+  throw new LockoutError(secondsUntil(lockedUntil, now));
+};
+
+/**
+ * Forget earlier failures once the right password is given; earlier
+ * lockouts still count towards the length of the next one
+ */
+export const clearLoginFailures = async (email: string): Promise<void> => {
+  await getRateLimitStore().reset(failuresKey(email));
+};
@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import { AssignmentRole } from '../models/Assignment';
+import { IEvent } from '../models/Event';
+import User from '../models/User';
+import { hasAssignments } from './eventLifecycle';
+import { findUserAssignment } from './secretSanta';
+
+/**
+ * Thrown when an event cannot be revealed; `status` is the HTTP status to report
+ */
+export class RevealError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'RevealError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether santas and receivers may learn each other's identity: once
+ * `revealAt` has passed, or earlier if an organiser revealed by hand
+ */
+export const isRevealed = (
+  event: Pick<IEvent, 'status' | 'revealAt' | 'revealedAt'>,
+  now: Date = new Date()
+): boolean =>
+  hasAssignments(event) &&
+  (!!event.revealedAt || (!!event.revealAt && event.revealAt <= now));
+
+/**
+ * Reveal all santas right away
+ */
+export const revealEvent = async (
+  event: IEvent,
+  actorId?: string | mongoose.Types.ObjectId
+): Promise<void> => {
+  if (!hasAssignments(event)) {
+    throw new RevealError('Assignments have not been completed yet');
+  }
+  if (isRevealed(event)) {
+    throw new RevealError('Santas have already been revealed');
+  }
+
+  event.revealedAt = new Date();
+  event.revealedBy = actorId ? new mongoose.Types.ObjectId(actorId) : undefined;
+  await event.save();
+};
+
+/**
+ * The person on the other side of a user's assignment: their receiver when
+ * `role` is santa, their santa when `role` is receiver. Callers must check
+ * isRevealed first.
+ */
+export const getRevealedPerson = async (
+  eventId: string,
+  userId: string,
+  role: AssignmentRole
+) => {
+  const assignment = await findUserAssignment(eventId, userId, role);
+  if (!assignment) {
+    return null;
+  }
+
+  const other = await User.findById(
+    role === 'santa' ? assignment.receiverUserId : assignment.santaUserId
+  );
+
+  return other ? { id: other._id, name: other.name } : null;
+};
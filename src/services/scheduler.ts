@@ -0,0 +1,243 @@
+import mongoose from 'mongoose';
+import config from '../config';
+import Event, { IEvent } from '../models/Event';
+import ScheduledJob, { IScheduledJob, JobType } from '../models/ScheduledJob';
+import { assignSecretSanta } from './secretSanta';
+import { transitionEvent } from './eventLifecycle';
+import { isSealed } from './sealing';
+import { recordAudit, SCHEDULER_ACTOR } from './audit';
+import {
+  notifyDeadlineReminder,
+  processOutbox,
+  recoverInterruptedEmails,
+} from './notifications';
+
+// Jobs left `running` by a crash are retried up to this many attempts
+const MAX_ATTEMPTS = 3;
+// A job still `running` this long after it started is taken to be abandoned;
+// until then it may be running on another instance
+const JOB_LEASE_MS = 30 * 60_000;
+
+interface JobOutcome {
+  status: 'completed' | 'skipped';
+  result: string;
+}
+
+/**
+ * Create, move or cancel the pending job of one type for an event
+ */
+const setPendingJob = async (
+  eventId: mongoose.Types.ObjectId,
+  type: JobType,
+  runAt: Date | null
+): Promise<void> => {
+  if (!runAt) {
+    await ScheduledJob.updateMany(
+      { eventId, type, status: 'pending' },
+      { status: 'cancelled', finishedAt: new Date() }
+    );
+    return;
+  }
+
+  await ScheduledJob.updateOne(
+    { eventId, type, status: 'pending' },
+    { runAt },
+    { upsert: true }
+  );
+};
+
+/**
+ * Bring an event's pending jobs in line with its current state.
+ * Call after creating or updating an event.
+ */
+export const scheduleEventJobs = async (event: IEvent): Promise<void> => {
+  const eventId = event._id as mongoose.Types.ObjectId;
+
+  await setPendingJob(
+    eventId,
+    'close-registration',
+    event.status === 'open' ? event.registrationDeadline : null
+  );
+  // No reminder when the deadline is already too close to give one
+  const remindAt = new Date(
+    event.registrationDeadline.getTime() - config.reminderHoursBeforeDeadline * 3600_000
+  );
+  await setPendingJob(
+    eventId,
+    'deadline-reminder',
+    event.status === 'open' && remindAt > new Date() ? remindAt : null
+  );
+  await setPendingJob(
+    eventId,
+    'run-draw',
+    event.drawAt && ['open', 'closed'].includes(event.status) ? event.drawAt : null
+  );
+};
+
+const closeRegistration = async (event: IEvent): Promise<JobOutcome> => {
+  if (event.status !== 'open') {
+    return { status: 'skipped', result: `Event is already ${event.status}` };
+  }
+
+  // The deadline may have moved since this job was scheduled
+  if (event.registrationDeadline > new Date()) {
+    return { status: 'skipped', result: 'Registration deadline was extended' };
+  }
+
+  await transitionEvent(event, 'closed', { reason: 'Registration deadline passed' });
+  return { status: 'completed', result: 'Registration closed' };
+};
+
+const sendDeadlineReminder = async (event: IEvent): Promise<JobOutcome> => {
+  if (event.status !== 'open') {
+    return { status: 'skipped', result: `Event is ${event.status}` };
+  }
+
+  await notifyDeadlineReminder(event);
+  return { status: 'completed', result: 'Reminders queued' };
+};
+
+const runDraw = async (event: IEvent): Promise<JobOutcome> => {
+  if (!['open', 'closed'].includes(event.status)) {
+    return { status: 'skipped', result: `Event is ${event.status}` };
+  }
+
+  const receipt = await assignSecretSanta(event._id as mongoose.Types.ObjectId, {
+    reason: 'Scheduled draw',
+  });
+  await recordAudit({
+    ...SCHEDULER_ACTOR,
+    action: 'assignment.trigger',
+    eventId: event._id as mongoose.Types.ObjectId,
+    details: {
+      mode: receipt.mode,
+      participantCount: receipt.participantCount,
+      participantsHash: receipt.participantsHash,
+    },
+  });
+  // The seed would let anyone who can read job results re-run a sealed draw
+  return {
+    status: 'completed',
+    result: isSealed(event)
+      ? `Drew ${receipt.participantCount} participants (sealed)`
+      : `Drew ${receipt.participantCount} participants with seed ${receipt.seed}`,
+  };
+};
+
+const JOB_HANDLERS: Record<JobType, (event: IEvent) => Promise<JobOutcome>> = {
+  'close-registration': closeRegistration,
+  'deadline-reminder': sendDeadlineReminder,
+  'run-draw': runDraw,
+};
+
+const runJob = async (job: IScheduledJob): Promise<void> => {
+  try {
+    const event = await Event.findById(job.eventId);
+    const outcome: JobOutcome = event
+      ? await JOB_HANDLERS[job.type](event)
+      : { status: 'skipped', result: 'Event no longer exists' };
+
+    job.status = outcome.status;
+    job.result = outcome.result;
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+    console.error(`Scheduled job ${job.type} for event ${job.eventId} failed:`, error);
+  }
+
+  job.finishedAt = new Date();
+  await job.save();
+};
+
+/**
+ * Run every pending job that is due. Each job is claimed atomically
+ * (pending -> running) so it never runs twice. Returns the number of jobs run.
+ */
+export const runDueJobs = async (now: Date = new Date()): Promise<number> => {
+  let count = 0;
+
+  for (;;) {
+    const job = await ScheduledJob.findOneAndUpdate(
+      { status: 'pending', runAt: { $lte: now } },
+      { status: 'running', startedAt: new Date(), $inc: { attempts: 1 } },
+      { sort: { runAt: 1 }, new: true }
+    );
+    if (!job) break;
+
+    await runJob(job);
+    count++;
+  }
+
+  return count;
+};
+
+/**
+ * Requeue jobs abandoned by an instance that stopped mid-run, giving up
+ * after MAX_ATTEMPTS. Jobs started within the lease are left alone.
+ */
+export const recoverInterruptedJobs = async (now: Date = new Date()): Promise<void> => {
+  const abandoned = {
+    status: 'running',
+    startedAt: { $lt: new Date(now.getTime() - JOB_LEASE_MS) },
+  };
+
+  await ScheduledJob.updateMany(
+    { ...abandoned, attempts: { $gte: MAX_ATTEMPTS } },
+    {
+      status: 'failed',
+      error: `Interrupted ${MAX_ATTEMPTS} times`,
+      finishedAt: now,
+    }
+  );
+
+  const jobs = await ScheduledJob.find(abandoned);
+  for (const job of jobs) {
+    // Matching startedAt too, so a job another instance just reclaimed is not touched
+    const claim = { _id: job._id, status: 'running', startedAt: job.startedAt };
+    try {
+      await ScheduledJob.updateOne(claim, { status: 'pending' });
+    } catch (error) {
+      // The event was rescheduled meanwhile and already has a pending job of this type
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      await ScheduledJob.updateOne(claim, {
+        status: 'cancelled',
+        error: 'Superseded by a newer pending job',
+        finishedAt: now,
+      });
+    }
+  }
+};
+
+/**
+ * Start polling for due jobs and outbox emails every `intervalMs`.
+ * Returns a function that stops the scheduler.
+ */
+export const startScheduler = (intervalMs: number): (() => void) => {
+  let ticking = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow one
+    if (ticking) return;
+    ticking = true;
+    try {
+      await recoverInterruptedJobs();
+      await runDueJobs();
+      await recoverInterruptedEmails();
+      await processOutbox();
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  tick();
+
+  const timer = setInterval(tick, intervalMs);
+  // Do not keep the process alive just for the scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import Assignment, { GIFT_STATUSES, GiftStatus } from '../models/Assignment';
+import { IEvent } from '../models/Event';
+import Participant from '../models/Participant';
+import { PopulatedUser } from '../models/User';
+import { AuditEntry, recordRequiredAudit } from './audit';
+import { hasAssignments } from './eventLifecycle';
+import { isRevealed } from './reveal';
+
+/**
+ * Thrown when an event's seal cannot be broken; `status` is the HTTP status to report
+ */
+export class SealError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SealError';
+    this.status = status;
+  }
+}
+
+// Reported by every endpoint that would give a sealed map away
+export const SEALED_MESSAGE = 'Assignments are sealed until the reveal';
+
+/**
+ * Whether who-draws-whom is hidden from organisers and admins: sealed
+ * events stay sealed until the reveal or until someone breaks the seal
+ */
+export const isSealed = (
+  event: Pick<IEvent, 'sealed' | 'unsealedAt' | 'status' | 'revealAt' | 'revealedAt'>,
+  now: Date = new Date()
+): boolean => event.sealed && !event.unsealedAt && !isRevealed(event, now);
+
+/**
+ * Break the seal so organisers can read the assignments, e.g. to sort
+ * out a dispute. Always recorded in the audit log with its reason; fails
+ * without unsealing if the entry cannot be written.
+ */
+export const unsealEvent = async (
+  event: IEvent,
+  reason: string,
+  actor: Pick<AuditEntry, 'actorId' | 'apiKeyId' | 'ip'>
+): Promise<void> => {
+  if (!isSealed(event)) {
+    throw new SealError('Assignments are not sealed');
+  }
+  if (!hasAssignments(event)) {
+    throw new SealError('Assignments have not been completed yet');
+  }
+
+  // Recorded first: if the entry cannot be written the seal stays intact
+  await recordRequiredAudit({
+    ...actor,
+    action: 'assignment.unseal',
+    eventId: event._id as mongoose.Types.ObjectId,
+    details: { reason },
+  });
+
+  event.unsealedAt = new Date();
+  event.unsealedBy = actor.actorId ? new mongoose.Types.ObjectId(actor.actorId) : undefined;
+  event.unsealReason = reason;
+  await event.save();
+};
+
+/**
+ * What organisers of a sealed event may see: counts, and whether each
+ * participant has been given someone to buy for, but never whom
+ */
+export const getSealedSummary = async (eventId: mongoose.Types.ObjectId) => {
+  const [participants, assignments] = await Promise.all([
+    Participant.find({ eventId }).populate<{ userId: PopulatedUser }>('userId', 'name email'),
+    Assignment.find({ eventId }).select('santaUserId giftStatus'),
+  ]);
+
+  const santaIds = new Set(assignments.map((a) => a.santaUserId.toString()));
+  const giftStatusCounts = Object.fromEntries(GIFT_STATUSES.map((s) => [s, 0])) as Record<
+    GiftStatus,
+    number
+  >;
+  assignments.forEach((a) => giftStatusCounts[a.giftStatus]++);
+
+  return {
+    participantCount: participants.length,
+    assignmentCount: assignments.length,
+    giftStatusCounts,
+    participants: participants
+      .filter((p) => p.userId)
+      .map((p) => ({
+        id: p.userId._id,
+        name: p.userId.name,
+        email: p.userId.email,
+        hasAssignment: santaIds.has(p.userId._id.toString()),
+      })),
+  };
+};
@@ -1,81 +1,124 @@
 import mongoose from 'mongoose';
-import Assignment from '../models/Assignment';
-import Event from '../models/Event';
-import User from '../models/User';
+import Assignment, { AssignmentRole, IAssignment } from '../models/Assignment';
+import Event, { AssignmentMode, IDrawReceipt, LabelScheme } from '../models/Event';
+import Participant from '../models/Participant';
+import { PopulatedUser } from '../models/User';
+import Exclusion from '../models/Exclusion';
+import Message from '../models/Message';
+import {
+  buildForbiddenMap,
+  generateAssignment,
+  shuffleArray,
+  DRAW_ALGORITHM_VERSION,
+  ExclusionRule,
+  MatchParticipant,
+} from './matching';
+import { createSeededRandom, generateSeed, sha256 } from '../utils/random';
+import { assertTransition, transitionEvent } from './eventLifecycle';
+import { notifyAssignmentsReady } from './notifications';
+import { formatReceiverLabel } from './labels';
+
+interface DrawnPair {
+  santaId: string;
+  receiverId: string;
+  receiverNumber: number;
+}
 
 /**
- * Fisher-Yates shuffle algorithm
- * Used to randomize the array
+ * Commitment to the exact participant list a draw was made from
  */
-const shuffleArray = <T>(array: T[]): T[] => {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+const hashParticipants = (participantIds: string[]): string => {
+  return sha256([...participantIds].sort().join('\n'));
 };
 
 /**
- * Check if an array is a valid derangement
- * (no element is in its original position)
+ * Commitment to the mode and exclusion rules a draw was made under
  */
-const isDerangement = (original: string[], shuffled: string[]): boolean => {
-  for (let i = 0; i < original.length; i++) {
-    if (original[i] === shuffled[i]) {
-      return false;
-    }
-  }
-  return true;
+const hashRules = (mode: AssignmentMode, rules: ExclusionRule[]): string => {
+  const normalized = rules
+    .map((rule) => {
+      // Couples and teams are unordered; pairs are directional
+      const ids = rule.type === 'pair' ? rule.userIds : [...rule.userIds].sort();
+      return `${rule.type}:${ids.join(',')}`;
+    })
+    .sort();
+  return sha256(JSON.stringify({ mode, rules: normalized }));
 };
 
 /**
- * Generate a random derangement of the input array
- * A derangement is a permutation where no element appears in its original position
- * This ensures no one is assigned to themselves
+ * Run a draw deterministically from a seed
+ * Participants are sorted by id first so database ordering never matters
  */
-const generateDerangement = <T>(array: T[], maxAttempts = 1000): T[] => {
-  if (array.length < 2) {
-    throw new Error('Need at least 2 participants for Secret Santa');
-  }
-
-  // For 2 participants, there's only one derangement: swap them
-  if (array.length === 2) {
-    return [array[1], array[0]];
-  }
+const computeDraw = (
+  participants: MatchParticipant[],
+  rules: ExclusionRule[],
+  mode: AssignmentMode,
+  seed: string
+): DrawnPair[] => {
+  const random = createSeededRandom(seed);
+  const santas = [...participants].sort((a, b) => (a.id < b.id ? -1 : 1));
 
-  const originalIndices = array.map((_, i) => i.toString());
-  let attempts = 0;
+  const forbidden = buildForbiddenMap(
+    santas.map((p) => p.id),
+    rules
+  );
+  // Throws UnsatisfiableDrawError if the exclusions rule out every draw
+  const receivers = generateAssignment(santas, forbidden, { mode, random });
 
-  while (attempts < maxAttempts) {
-    const shuffled = shuffleArray(array);
-    const shuffledIndices = array.map((item) => array.indexOf(item).toString());
+  // Generate unique numbers for receivers
+  const numbers = Array.from({ length: santas.length }, (_, i) => i + 1);
+  const shuffledNumbers = shuffleArray(numbers, random);
 
-    if (isDerangement(originalIndices, shuffledIndices)) {
-      return shuffled;
-    }
+  return santas.map((santa, index) => ({
+    santaId: santa.id,
+    receiverId: receivers[index].id,
+    receiverNumber: shuffledNumbers[index],
+  }));
+};
 
-    attempts++;
-  }
+/**
+ * Load the inputs of a draw for an event
+ */
+const loadDrawInputs = async (
+  eventId: mongoose.Types.ObjectId,
+  session?: mongoose.ClientSession
+) => {
+  const participants = await Participant.find({ eventId })
+    .populate<{ userId: Pick<PopulatedUser, '_id' | 'name'> }>('userId', 'name')
+    .session(session || null);
+  const exclusions = await Exclusion.find({ eventId }).session(session || null);
 
-  // Fallback algorithm if random shuffle fails
-  // This creates a cyclic shift which is guaranteed to be a derangement
-  const result = [...array];
-  const last = result.pop()!;
-  result.unshift(last);
-  return result;
+  return {
+    // A membership whose user was deleted cannot take part
+    participants: participants
+      .filter((p) => p.userId)
+      .map((p) => ({
+        id: p.userId._id.toString(),
+        name: p.userId.name,
+      })),
+    rules: exclusions.map((e) => ({
+      type: e.type,
+      userIds: e.userIds.map((id) => id.toString()),
+    })),
+  };
 };
 
 /**
  * Assign Secret Santa participants
  * Creates assignments where:
  * - No one is assigned to themselves
+ * - The event's exclusion rules (couples, teams, forbidden pairs) are honoured
+ * - The draw has the structure requested by the event's assignment mode
  * - Each person is assigned exactly once as a receiver
  * - Each assignment gets a unique number
+ *
+ * The draw is fully determined by the seed (generated if not supplied),
+ * which is stored on the event together with commitments to its inputs.
  */
 export const assignSecretSanta = async (
-  eventId: mongoose.Types.ObjectId
-): Promise<void> => {
+  eventId: mongoose.Types.ObjectId,
+  options: { seed?: string; actorId?: string; reason?: string } = {}
+): Promise<IDrawReceipt> => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
@@ -86,41 +129,65 @@ export const assignSecretSanta = async (
       throw new Error('Event not found');
     }
 
-    // Get all participants for this event
-    const participants = await User.find({ eventId }).session(session);
+    // Re-running a draw on an assigned event keeps its status
+    const redraw = event.status === 'assigned';
+    if (!redraw) {
+      assertTransition(event, 'assigned', { viaDraw: true });
+    }
+
+    // Get all participants and exclusion rules for this event
+    const { participants, rules } = await loadDrawInputs(eventId, session);
 
     if (participants.length < 2) {
       throw new Error('Need at least 2 participants for Secret Santa');
     }
 
+    const seed = options.seed || generateSeed();
+    const pairs = computeDraw(participants, rules, event.assignmentMode, seed);
+
     // Delete existing assignments for this event (if re-running)
     await Assignment.deleteMany({ eventId }).session(session);
-
-    // Create arrays for assignment
-    const santas = [...participants];
-    const receivers = generateDerangement(participants);
-
-    // Generate unique numbers for receivers
-    const numbers = Array.from({ length: participants.length }, (_, i) => i + 1);
-    const shuffledNumbers = shuffleArray(numbers);
+    await Message.deleteMany({ eventId }).session(session);
 
     // Create assignments
-    const assignments = santas.map((santa, index) => ({
+    const assignments = pairs.map((pair) => ({
       eventId,
-      santaUserId: santa._id,
-      receiverUserId: receivers[index]._id,
-      receiverNumber: shuffledNumbers[index],
+      santaUserId: new mongoose.Types.ObjectId(pair.santaId),
+      receiverUserId: new mongoose.Types.ObjectId(pair.receiverId),
+      receiverNumber: pair.receiverNumber,
     }));
 
     // Save all assignments
     await Assignment.insertMany(assignments, { session });
 
-    // Update event status
-    event.status = 'assigned';
-    await event.save({ session });
+    // Record the draw receipt and update event status
+    const receipt: IDrawReceipt = {
+      seed,
+      algorithmVersion: DRAW_ALGORITHM_VERSION,
+      mode: event.assignmentMode,
+      participantCount: participants.length,
+      participantsHash: hashParticipants(participants.map((p) => p.id)),
+      rulesHash: hashRules(event.assignmentMode, rules),
+      drawnAt: new Date(),
+    };
+    event.draw = receipt;
+    if (redraw) {
+      await event.save({ session });
+    } else {
+      await transitionEvent(event, 'assigned', {
+        session,
+        viaDraw: true,
+        actorId: options.actorId,
+        reason: options.reason || 'Draw completed',
+      });
+    }
 
     await session.commitTransaction();
     console.log(`✅ Successfully assigned ${assignments.length} Secret Santa pairs`);
+
+    await notifyAssignmentsReady(eventId);
+
+    return receipt;
   } catch (error) {
     await session.abortTransaction();
     console.error('❌ Error assigning Secret Santa:', error);
@@ -130,52 +197,174 @@ export const assignSecretSanta = async (
   }
 };
 
+/**
+ * Re-run an event's draw from its stored seed and compare it
+ * with the saved assignments
+ * Returns null if the event has no draw receipt
+ */
+export const verifyDraw = async (eventId: mongoose.Types.ObjectId) => {
+  const event = await Event.findById(eventId);
+  if (!event || !event.draw) {
+    return null;
+  }
+
+  const receipt = event.draw;
+  const { participants, rules } = await loadDrawInputs(eventId);
+
+  const participantsMatch =
+    hashParticipants(participants.map((p) => p.id)) === receipt.participantsHash;
+  const rulesMatch = hashRules(receipt.mode, rules) === receipt.rulesHash;
+  const algorithmMatches = receipt.algorithmVersion === DRAW_ALGORITHM_VERSION;
+
+  // Re-running only proves anything if the inputs are the committed ones
+  if (!participantsMatch || !rulesMatch || !algorithmMatches) {
+    return {
+      verified: false,
+      receipt,
+      participantsMatch,
+      rulesMatch,
+      algorithmMatches,
+      mismatchedAssignments: null,
+    };
+  }
+
+  const expected = computeDraw(participants, rules, receipt.mode, receipt.seed);
+  const stored = await Assignment.find({ eventId });
+  const storedBySanta = new Map(stored.map((a) => [a.santaUserId.toString(), a]));
+
+  const mismatchedAssignments =
+    expected.filter((pair) => {
+      const actual = storedBySanta.get(pair.santaId);
+      return (
+        !actual ||
+        actual.receiverUserId.toString() !== pair.receiverId ||
+        actual.receiverNumber !== pair.receiverNumber
+      );
+    }).length + Math.max(0, stored.length - expected.length);
+
+  return {
+    verified: mismatchedAssignments === 0,
+    receipt,
+    participantsMatch,
+    rulesMatch,
+    algorithmMatches,
+    mismatchedAssignments,
+  };
+};
+
+/**
+ * Find the assignment a user is part of in the given role:
+ * as santa the one they drew, as receiver the one that drew them
+ */
+export const findUserAssignment = async (
+  eventId: string,
+  userId: string,
+  role: AssignmentRole
+): Promise<IAssignment | null> => {
+  return Assignment.findOne({
+    eventId,
+    ...(role === 'santa' ? { santaUserId: userId } : { receiverUserId: userId }),
+  });
+};
+
 /**
  * Get assignment for a specific user
- * Returns the receiver's number and wishlist (but not their identity)
+ * Returns the receiver's number, label and full wishlist (but not their identity)
  */
 export const getUserAssignment = async (
   eventId: mongoose.Types.ObjectId,
-  userId: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId,
+  labelScheme: LabelScheme = 'numeric'
 ) => {
   const assignment = await Assignment.findOne({
     eventId,
     santaUserId: userId,
-  }).populate('receiverUserId', 'wishlist');
+  });
 
   if (!assignment) {
     return null;
   }
 
+  const receiver = await Participant.findOne({
+    eventId,
+    userId: assignment.receiverUserId,
+  });
+
   return {
     receiverNumber: assignment.receiverNumber,
-    receiverWishlist: (assignment.receiverUserId as any).wishlist,
+    receiverLabel: formatReceiverLabel(assignment.receiverNumber, labelScheme),
+    receiverWishlist: receiver ? receiver.wishlist : [],
+    giftStatus: assignment.giftStatus,
+    trackingNumber: assignment.trackingNumber,
   };
 };
 
 /**
- * Get all assignments for an event (admin only)
+ * Get all assignments for an event (organisers only)
  * Returns complete mapping with participant details
  */
-export const getAllAssignments = async (eventId: mongoose.Types.ObjectId) => {
+export const getAllAssignments = async (
+  eventId: mongoose.Types.ObjectId,
+  labelScheme: LabelScheme = 'numeric'
+) => {
   const assignments = await Assignment.find({ eventId })
-    .populate('santaUserId', 'name email wishlist')
-    .populate('receiverUserId', 'name email wishlist')
+    .populate('santaUserId', 'name email')
+    .populate('receiverUserId', 'name email')
     .sort({ receiverNumber: 1 });
 
+  // Wishlists are per event, so they come from the participant records
+  const participants = await Participant.find({ eventId });
+  const wishlists = new Map(participants.map((p) => [p.userId.toString(), p.wishlist]));
+
   return assignments.map((assignment) => ({
     santa: {
       id: (assignment.santaUserId as any)._id,
       name: (assignment.santaUserId as any).name,
       email: (assignment.santaUserId as any).email,
-      wishlist: (assignment.santaUserId as any).wishlist,
+      wishlist: wishlists.get((assignment.santaUserId as any)._id.toString()),
     },
     receiver: {
       id: (assignment.receiverUserId as any)._id,
       name: (assignment.receiverUserId as any).name,
       email: (assignment.receiverUserId as any).email,
-      wishlist: (assignment.receiverUserId as any).wishlist,
+      wishlist: wishlists.get((assignment.receiverUserId as any)._id.toString()),
     },
     receiverNumber: assignment.receiverNumber,
+    receiverLabel: formatReceiverLabel(assignment.receiverNumber, labelScheme),
+    giftStatus: assignment.giftStatus,
+    trackingNumber: assignment.trackingNumber,
   }));
 };
+
+/**
+ * Get the gift-opening order for a single-cycle draw
+ * Follows santa -> receiver links starting from receiver number 1's santa,
+ * so each person gives to the next one and the last gives to the first
+ */
+export const getChainOrder = (
+  assignments: Awaited<ReturnType<typeof getAllAssignments>>
+) => {
+  if (assignments.length === 0) {
+    return [];
+  }
+
+  const bySanta = new Map(assignments.map((a) => [a.santa.id.toString(), a]));
+  const chain = [];
+  let current = assignments[0];
+
+  for (let i = 0; i < assignments.length; i++) {
+    chain.push({
+      position: i + 1,
+      id: current.santa.id,
+      name: current.santa.name,
+      givesToReceiverNumber: current.receiverNumber,
+      givesToReceiverLabel: current.receiverLabel,
+    });
+
+    const next = bySanta.get(current.receiver.id.toString());
+    if (!next || next === assignments[0]) break;
+    current = next;
+  }
+
+  return chain;
+};
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import config from '../config';
+import Session, { ISession } from '../models/Session';
+import { IUser } from '../models/User';
+import { generateToken } from '../utils/jwt';
+import { sha256 } from '../utils/random';
+
+// Only write lastUsedAt when it is this stale, so requests do not all hit the database
+const LAST_USED_RESOLUTION_MS = 60_000;
+// Two tabs refreshing at once, or a retried request, present the token that
+// was just rotated away; for this long that is not treated as a replay
+const REFRESH_REUSE_GRACE_MS = 30_000;
+
+/**
+ * Thrown when a session cannot be used or changed; `status` is the HTTP status to report
+ */
+export class SessionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = 'SessionError';
+    this.status = status;
+  }
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  // `<session id>.<secret>`; only the hash of the secret is stored
+  refreshToken: string;
+  sessionId: string;
+}
+
+const refreshExpiry = (): Date =>
+  new Date(Date.now() + config.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+const issueTokens = (
+  user: Pick<IUser, '_id' | 'email' | 'role'>,
+  session: ISession,
+  secret: string
+): SessionTokens => {
+  const sessionId = (session._id as mongoose.Types.ObjectId).toString();
+
+  return {
+    accessToken: generateToken({
+      userId: (user._id as mongoose.Types.ObjectId).toString(),
+      email: user.email,
+      role: user.role,
+      sessionId,
+    }),
+    refreshToken: `${sessionId}.${secret}`,
+    sessionId,
+  };
+};
+
+const newSecret = (): string => crypto.randomBytes(32).toString('base64url');
+
+const hashesMatch = (a: string, b?: string): boolean =>
+  !!b && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Start a session for a user who just signed in
+ */
+export const createSession = async (
+  user: Pick<IUser, '_id' | 'email' | 'role'>,
+  client: ClientInfo
+): Promise<SessionTokens> => {
+  const secret = newSecret();
+  const session = await Session.create({
+    userId: user._id,
+    refreshTokenHash: sha256(secret),
+    userAgent: client.userAgent || '',
+    ip: client.ip || '',
+    lastUsedAt: new Date(),
+    expiresAt: refreshExpiry(),
+  });
+
+  return issueTokens(user, session, secret);
+};
+
+/**
+ * Swap a refresh token for a new access and refresh token. Presenting a
+ * token that was already rotated away means it leaked, so the whole
+ * session is revoked, unless the rotation was only a few seconds ago.
+ */
+export const refreshSession = async (
+  refreshToken: string,
+  client: ClientInfo
+): Promise<SessionTokens> => {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!secret || !mongoose.isValidObjectId(sessionId)) {
+    throw new SessionError('Invalid refresh token');
+  }
+
+  const session = await Session.findById(sessionId).populate<{ userId: IUser }>('userId');
+  const now = new Date();
+  if (!session || !session.userId || session.revokedAt || session.expiresAt <= now) {
+    throw new SessionError('Session has expired or been revoked');
+  }
+
+  const hash = sha256(secret);
+  const isCurrent = hashesMatch(hash, session.refreshTokenHash);
+  if (!isCurrent && hashesMatch(hash, session.previousTokenHash)) {
+    const justRotated =
+      !!session.rotatedAt &&
+      now.getTime() - session.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS;
+    if (!justRotated) {
+      session.revokedAt = now;
+      await session.save();
+      throw new SessionError('Invalid refresh token');
+    }
+  } else if (!isCurrent) {
+    throw new SessionError('Invalid refresh token');
+  }
+
+  const next = newSecret();
+  // Only succeeds for one of two concurrent refreshes with the current token.
+  // A just-rotated token is issued a fresh one, and stays the previous token.
+  const rotated = await Session.findOneAndUpdate(
+    {
+      _id: session._id,
+      ...(isCurrent ? { refreshTokenHash: hash } : { previousTokenHash: hash }),
+      revokedAt: { $exists: false },
+    },
+    {
+      refreshTokenHash: sha256(next),
+      previousTokenHash: hash,
+      ...(isCurrent && { rotatedAt: now }),
+      userAgent: client.userAgent || session.userAgent,
+      ip: client.ip || session.ip,
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(),
+    },
+    { new: true }
+  );
+  if (!rotated) {
+    throw new SessionError('Invalid refresh token');
+  }
+
+  return issueTokens(session.userId, rotated, next);
+};
+
+/**
+ * Revoke the session a refresh token belongs to, e.g. on logout.
+ * Tokens that do not match their session are ignored.
+ */
+export const revokeRefreshToken = async (refreshToken: string): Promise<void> => {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!secret || !mongoose.isValidObjectId(sessionId)) {
+    return;
+  }
+
+  await Session.updateOne(
+    { _id: sessionId, refreshTokenHash: sha256(secret), revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+};
+
+/**
+ * Whether an access token's session may still be used; also records when it was last used
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  if (!mongoose.isValidObjectId(sessionId)) {
+    return false;
+  }
+
+  const session = await Session.findById(sessionId).select('revokedAt expiresAt lastUsedAt');
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return false;
+  }
+
+  if (Date.now() - session.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await Session.updateOne({ _id: session._id }, { lastUsedAt: new Date() });
+  }
+  return true;
+};
+
+/**
+ * A user's sessions that can still be used, most recently used first
+ */
+export const listSessions = async (userId: string) =>
+  Session.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+
+/**
+ * Revoke one of the user's sessions; returns false if there is no such active session
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<boolean> => {
+  if (!mongoose.isValidObjectId(sessionId)) {
+    return false;
+  }
+
+  const result = await Session.updateOne(
+    { _id: sessionId, userId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Revoke every active session of the user, optionally keeping one (the
+ * caller's own); returns how many were revoked
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const result = await Session.updateMany(
+    {
+      userId,
+      revokedAt: { $exists: false },
+      ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+    },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount;
+};
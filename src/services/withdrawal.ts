@@ -0,0 +1,202 @@
+import mongoose from 'mongoose';
+import Assignment, { IAssignment } from '../models/Assignment';
+import { IEvent } from '../models/Event';
+import Exclusion from '../models/Exclusion';
+import Message from '../models/Message';
+import Participant from '../models/Participant';
+import { buildForbiddenMap, shuffleArray } from './matching';
+import { notifyReceiverChanged } from './notifications';
+
+/**
+ * Thrown when a participant cannot be withdrawn; `status` is the HTTP status to report
+ */
+export class WithdrawalError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'WithdrawalError';
+    this.status = status;
+  }
+}
+
+/**
+ * santa id -> receiver id
+ */
+type ReceiverMap = Map<string, string>;
+
+/**
+ * Find the smallest change that closes the gap left by a withdrawn person.
+ * `santaId` drew the withdrawn person, who drew `receiverId`; everyone else
+ * keeps their receiver in `receiverOf`.
+ *
+ * The santa inherits the withdrawn person's receiver when the rules allow it.
+ * Otherwise (they drew each other, or an exclusion forbids it) the santa
+ * swaps with one other santa. Returns the santas whose receiver changed.
+ */
+export const repairAssignments = (
+  receiverOf: ReceiverMap,
+  santaId: string,
+  receiverId: string,
+  canDraw: (santa: string, receiver: string, mapping: ReceiverMap) => boolean,
+  allowSwap: boolean,
+  random: () => number = Math.random
+): string[] | null => {
+  const direct = new Map(receiverOf).set(santaId, receiverId);
+  if (canDraw(santaId, receiverId, direct)) {
+    receiverOf.set(santaId, receiverId);
+    return [santaId];
+  }
+
+  if (!allowSwap) {
+    return null;
+  }
+
+  const others = shuffleArray(
+    [...receiverOf.keys()].filter((id) => id !== santaId),
+    random
+  );
+  for (const otherId of others) {
+    const swapped = new Map(receiverOf)
+      .set(santaId, receiverOf.get(otherId)!)
+      .set(otherId, receiverId);
+
+    if (
+      canDraw(santaId, swapped.get(santaId)!, swapped) &&
+      canDraw(otherId, receiverId, swapped)
+    ) {
+      receiverOf.set(santaId, swapped.get(santaId)!).set(otherId, receiverId);
+      return [santaId, otherId];
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Remove a participant from an event. Before the draw this only removes
+ * their membership. After the draw the cycle is repaired locally, keeping
+ * every other pairing and receiver number, and only the santas whose
+ * receiver changed are told.
+ */
+export const withdrawParticipant = async (
+  event: IEvent,
+  userId: string
+): Promise<{ reassignedSantaIds: string[] }> => {
+  if (event.status === 'completed' || event.status === 'cancelled') {
+    throw new WithdrawalError(`Cannot withdraw from a ${event.status} event`);
+  }
+
+  const eventId = event._id as mongoose.Types.ObjectId;
+  const participant = await Participant.findOne({ eventId, userId });
+  if (!participant) {
+    throw new WithdrawalError('Participant not found', 404);
+  }
+
+  if (event.status !== 'assigned') {
+    await participant.deleteOne();
+    return { reassignedSantaIds: [] };
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  let changed: IAssignment[];
+  try {
+    const assignments = await Assignment.find({ eventId }).session(session);
+    if (assignments.length <= 2) {
+      throw new WithdrawalError(
+        'At least 2 participants must remain; cancel the event instead'
+      );
+    }
+
+    const bySanta = new Map(assignments.map((a) => [a.santaUserId.toString(), a]));
+    const own = bySanta.get(userId);
+    const inbound = assignments.find((a) => a.receiverUserId.toString() === userId);
+    if (!own || !inbound) {
+      throw new WithdrawalError('Participant has no assignment in this draw', 409);
+    }
+
+    const santaId = inbound.santaUserId.toString();
+    const receiverId = own.receiverUserId.toString();
+
+    const receiverOf: ReceiverMap = new Map(
+      assignments
+        .filter((a) => a !== own && a !== inbound)
+        .map((a) => [a.santaUserId.toString(), a.receiverUserId.toString()])
+    );
+    const exclusions = await Exclusion.find({ eventId }).session(session);
+    const forbidden = buildForbiddenMap(
+      [...bySanta.keys()].filter((id) => id !== userId),
+      exclusions.map((e) => ({
+        type: e.type,
+        userIds: e.userIds.map((id) => id.toString()),
+      }))
+    );
+    const avoidReciprocal = event.assignmentMode === 'pairs-avoid-reciprocal';
+    const canDraw = (santa: string, receiver: string, mapping: ReceiverMap) =>
+      !forbidden.get(santa)!.has(receiver) &&
+      !(avoidReciprocal && mapping.get(receiver) === santa);
+
+    // A swap would split a single cycle in two
+    const reassigned = repairAssignments(
+      receiverOf,
+      santaId,
+      receiverId,
+      canDraw,
+      event.assignmentMode !== 'single-cycle'
+    );
+    if (!reassigned) {
+      throw new WithdrawalError(
+        'No local repair satisfies the exclusion rules; re-run the draw instead',
+        422
+      );
+    }
+
+    // Receiver numbers belong to receivers, so they move with them
+    const numberOf = new Map(
+      assignments.map((a) => [a.receiverUserId.toString(), a.receiverNumber])
+    );
+
+    // Threads with a changed receiver would otherwise reach the wrong person
+    const staleThreads = [own._id, ...reassigned.map((id) => bySanta.get(id)!._id)];
+    await own.deleteOne({ session });
+    await Message.deleteMany({ assignmentId: { $in: staleThreads } }).session(session);
+
+    // Update one at a time, in an order that never breaks the unique indexes:
+    // each new receiver has already been freed by the withdrawn person or
+    // by the previous update
+    changed = [];
+    for (const id of [...reassigned].reverse()) {
+      const assignment = bySanta.get(id)!;
+      const newReceiverId = receiverOf.get(id)!;
+      assignment.receiverUserId = new mongoose.Types.ObjectId(newReceiverId);
+      assignment.receiverNumber = numberOf.get(newReceiverId)!;
+      assignment.giftStatus = 'not-started';
+      assignment.trackingNumber = undefined;
+      assignment.giftUpdatedAt = undefined;
+      await assignment.save({ session });
+      changed.push(assignment);
+    }
+
+    await participant.deleteOne({ session });
+
+    if (event.draw) {
+      event.draw.amendedAt = new Date();
+      await event.save({ session });
+    }
+
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+
+  for (const assignment of changed) {
+    await notifyReceiverChanged(assignment);
+  }
+
+  return { reassignedSantaIds: changed.map((a) => a.santaUserId.toString()) };
+};
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import config from '../config';
+
+const sign = (nonce: string): string =>
+  crypto.createHmac('sha256', config.jwtSecret).update(`csrf:${nonce}`).digest('base64url');
+
+/**
+ * A random nonce with its HMAC, so only this server can mint valid tokens
+ */
+export const generateCsrfToken = (): string => {
+  const nonce = crypto.randomBytes(24).toString('base64url');
+  return `${nonce}.${sign(nonce)}`;
+};
+
+export const isValidCsrfToken = (token: unknown): token is string => {
+  if (typeof token !== 'string') {
+    return false;
+  }
+
+  const [nonce, signature] = token.split('.');
+  if (!nonce || !signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(nonce));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * The token sent in the header must be valid and equal to the one in the cookie
+ */
+export const csrfTokensMatch = (cookieToken: unknown, headerToken: unknown): boolean => {
+  if (!isValidCsrfToken(cookieToken) || typeof headerToken !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(cookieToken);
+  const actual = Buffer.from(headerToken);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
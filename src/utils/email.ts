@@ -0,0 +1,14 @@
+import validator from 'validator';
+
+/**
+ * An email address as the auth validators' `normalizeEmail()` stores it
+ * (lowercased, Gmail without dots or +tags). Anything that is not a valid
+ * address is only trimmed and lowercased.
+ */
+export const normalizeEmail = (email: string): string => {
+  const trimmed = email.trim();
+  return (
+    (validator.isEmail(trimmed) && validator.normalizeEmail(trimmed)) ||
+    trimmed.toLowerCase()
+  );
+};
@@ -5,18 +5,56 @@ export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  // Set for users signed in with a session; empty for API keys
+  sessionId?: string;
 }
 
 export const generateToken = (payload: JwtPayload): string => {
   return jwt.sign(payload, config.jwtSecret as jwt.Secret, {
-    expiresIn: config.jwtExpiresIn,
-  } as jwt.SignOptions);
+    expiresIn: config.accessTokenTtlMinutes * 60,
+  });
 };
 
+/**
+ * Verify an access token. Invite links are signed with the same secret,
+ * so tokens with a subject (invites have `sub: 'invite'`) are refused.
+ */
 export const verifyToken = (token: string): JwtPayload => {
+  let payload: string | jwt.JwtPayload;
   try {
-    return jwt.verify(token, config.jwtSecret as jwt.Secret) as JwtPayload;
+    payload = jwt.verify(token, config.jwtSecret as jwt.Secret);
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
+
+  if (typeof payload === 'string' || payload.sub !== undefined || !payload.userId) {
+    throw new Error('Invalid or expired token');
+  }
+  return payload as JwtPayload;
+};
+
+export interface InviteTokenPayload {
+  inviteId: string;
+  eventId: string;
+}
+
+export const generateInviteToken = (
+  payload: InviteTokenPayload,
+  expiresAt?: Date
+): string => {
+  const options: jwt.SignOptions = { subject: 'invite' };
+  if (expiresAt) {
+    options.expiresIn = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  }
+  return jwt.sign(payload, config.jwtSecret as jwt.Secret, options);
+};
+
+export const verifyInviteToken = (token: string): InviteTokenPayload => {
+  try {
+    return jwt.verify(token, config.jwtSecret as jwt.Secret, {
+      subject: 'invite',
+    }) as InviteTokenPayload;
+  } catch (error) {
+    throw new Error('Invalid or expired invite link');
+  }
 };
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+export const generateSeed = (): string => {
+  return crypto.randomBytes(16).toString('hex');
+};
+
+// 32 characters without 0/O or 1/I, so codes survive being read out loud
+// (and 256 % 32 === 0 keeps every character equally likely)
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateInviteCode = (length = 8): string => {
+  const bytes = crypto.randomBytes(length);
+  return Array.from(bytes, (b) => INVITE_CODE_ALPHABET[b % 32]).join('');
+};
+
+export const sha256 = (value: string): string => {
+  return crypto.createHash('sha256').update(value).digest('hex');
+};
+
+/**
+ * Deterministic random number generator in [0, 1)
+ * Hashes `${seed}:${counter}` with SHA-256 and consumes the digest
+ * 4 bytes at a time, so the same seed always yields the same sequence
+ * on every platform and Node version.
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  return () => {
+    if (offset + 4 > block.length) {
+      block = crypto.createHash('sha256').update(`${seed}:${counter++}`).digest();
+      offset = 0;
+    }
+
+    const value = block.readUInt32BE(offset);
+    offset += 4;
+    return value / 0x100000000;
+  };
+};
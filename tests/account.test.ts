@@ -0,0 +1,171 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import config from '../src/config';
+import User, { IUser } from '../src/models/User';
+import Session from '../src/models/Session';
+import AccountToken from '../src/models/AccountToken';
+import OutboxEmail from '../src/models/OutboxEmail';
+import { comparePassword, hashPassword } from '../src/utils/password';
+import {
+  AccountError,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+} from '../src/services/account';
+import { createSession, isSessionActive } from '../src/services/sessions';
+import { createApiKey, verifyApiKey } from '../src/services/apiKeys';
+import ApiKey from '../src/models/ApiKey';
+
+let mongoServer: MongoMemoryServer;
+let user: IUser;
+
+const client = { userAgent: 'Firefox', ip: '10.0.0.1' };
+
+// The token only ever leaves the server inside the emailed link
+const tokenFromOutbox = async (template: string): Promise<string> => {
+  const email = await OutboxEmail.findOne({ template }).sort({ createdAt: -1 });
+  const match = email?.text.match(/token=([^\s&]+)/);
+  return decodeURIComponent(match![1]);
+};
+
+beforeAll(async () => {
+  config.jwtSecret = 'test-secret';
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await User.deleteMany({});
+  await Session.deleteMany({});
+  await AccountToken.deleteMany({});
+  await OutboxEmail.deleteMany({});
+  await ApiKey.deleteMany({});
+  user = await User.create({
+    name: 'Alice',
+    email: 'alice@test.com',
+    passwordHash: await hashPassword('old-password'),
+    role: 'user',
+  });
+});
+
+describe('Email verification', () => {
+  test('should verify the address once with the emailed token', async () => {
+    await sendEmailVerification(user);
+    const token = await tokenFromOutbox('email-verification');
+
+    // Only a hash is stored
+    expect(await AccountToken.findOne({ tokenHash: token })).toBeNull();
+
+    const verified = await verifyEmail(token);
+    expect(verified.emailVerifiedAt).toBeInstanceOf(Date);
+
+    await expect(verifyEmail(token)).rejects.toThrow(AccountError);
+  });
+
+  test('should only accept the latest, unexpired token', async () => {
+    await sendEmailVerification(user);
+    const first = await tokenFromOutbox('email-verification');
+    await sendEmailVerification(user);
+    const second = await tokenFromOutbox('email-verification');
+
+    await expect(verifyEmail(first)).rejects.toThrow('This link is invalid or has expired');
+
+    await AccountToken.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+    await expect(verifyEmail(second)).rejects.toThrow('This link is invalid or has expired');
+  });
+});
+
+describe('Password reset', () => {
+  test('should not reveal unknown addresses', async () => {
+    await requestPasswordReset('nobody@test.com');
+
+    expect(await OutboxEmail.countDocuments()).toBe(0);
+  });
+
+  test('should set the new password and sign out every session', async () => {
+    const session = await createSession(user, client);
+    const { key } = await createApiKey(user._id.toString(), {
+      name: 'Script',
+      scopes: ['events:read'],
+    });
+    await requestPasswordReset('alice@test.com');
+    const token = await tokenFromOutbox('password-reset');
+
+    await resetPassword(token, 'new-password');
+
+    const updated = await User.findById(user._id).select('+passwordHash');
+    expect(await comparePassword('new-password', updated!.passwordHash!)).toBe(true);
+    expect(updated!.emailVerifiedAt).toBeInstanceOf(Date);
+    expect(await isSessionActive(session.sessionId)).toBe(false);
+    // A key made with a stolen session must not outlive the reset
+    expect(await verifyApiKey(key)).toBeNull();
+    expect(await OutboxEmail.countDocuments({ template: 'password-changed' })).toBe(1);
+
+    // Single use
+    await expect(resetPassword(token, 'another-password')).rejects.toThrow(AccountError);
+  });
+
+  test('should not accept a verification token', async () => {
+    await sendEmailVerification(user);
+    const token = await tokenFromOutbox('email-verification');
+
+    await expect(resetPassword(token, 'new-password')).rejects.toThrow(AccountError);
+  });
+});
+
+describe('Change password', () => {
+  test('should require the current password and keep this session', async () => {
+    const current = await createSession(user, client);
+    const other = await createSession(user, client);
+
+    await expect(
+      changePassword(user._id.toString(), 'wrong', 'new-password', current.sessionId)
+    ).rejects.toThrow('Current password is incorrect');
+
+    await changePassword(
+      user._id.toString(),
+      'old-password',
+      'new-password',
+      current.sessionId
+    );
+
+    const updated = await User.findById(user._id).select('+passwordHash');
+    expect(await comparePassword('new-password', updated!.passwordHash!)).toBe(true);
+    expect(await isSessionActive(current.sessionId)).toBe(true);
+    expect(await isSessionActive(other.sessionId)).toBe(false);
+  });
+
+  test('should keep API keys but list them in the notice', async () => {
+    const { key } = await createApiKey(user._id.toString(), {
+      name: 'Slack bot',
+      scopes: ['events:read'],
+    });
+
+    await changePassword(user._id.toString(), 'old-password', 'new-password');
+
+    expect(await verifyApiKey(key)).not.toBeNull();
+    const notice = await OutboxEmail.findOne({ template: 'password-changed' });
+    expect(notice!.text).toContain('Slack bot');
+  });
+
+  test('should let users without a password set one', async () => {
+    const google = await User.create({
+      name: 'Bob',
+      email: 'bob@test.com',
+      googleId: 'google-1',
+      role: 'user',
+    });
+
+    await changePassword(google._id.toString(), undefined, 'first-password');
+
+    const updated = await User.findById(google._id).select('+passwordHash');
+    expect(await comparePassword('first-password', updated!.passwordHash!)).toBe(true);
+  });
+});
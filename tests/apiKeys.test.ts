@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import config from '../src/config';
+import User, { IUser } from '../src/models/User';
+import ApiKey from '../src/models/ApiKey';
+import Session from '../src/models/Session';
+import { apiKeyScope, authenticate } from '../src/middleware/auth';
+import { sha256 } from '../src/utils/random';
+import {
+  ApiKeyError,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  verifyApiKey,
+} from '../src/services/apiKeys';
+import { createSession } from '../src/services/sessions';
+
+let mongoServer: MongoMemoryServer;
+let user: IUser;
+
+beforeAll(async () => {
+  config.jwtSecret = 'test-secret';
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await User.deleteMany({});
+  await ApiKey.deleteMany({});
+  await Session.deleteMany({});
+  user = await User.create({ name: 'Alice', email: 'alice@test.com', role: 'user' });
+});
+
+/**
+ * Run `authenticate` (after the route's scope, if any) for a request
+ * with the given Authorization header
+ */
+const authenticateWith = async (authorization: string, scope?: 'events:read') => {
+  const req = {
+    cookies: {},
+    ip: '10.0.0.1',
+    get: (name: string) => (name.toLowerCase() === 'authorization' ? authorization : undefined),
+  } as unknown as Request;
+  let status = 200;
+  let body: { message?: string } = {};
+  let nextCalled = false;
+  const res = {
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: (data: { message?: string }) => {
+      body = data;
+      return res;
+    },
+  } as unknown as Response;
+
+  if (scope) {
+    apiKeyScope(scope)(req, res, () => undefined);
+  }
+  await authenticate(req, res, () => {
+    nextCalled = true;
+  });
+  return { req, status, body, nextCalled };
+};
+
+describe('API keys', () => {
+  test('should store only a hash and show the key once', async () => {
+    const { apiKey, key } = await createApiKey(user._id.toString(), {
+      name: 'Slack bot',
+      scopes: ['events:read', 'events:read'],
+    });
+
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    expect(apiKey.scopes).toEqual(['events:read']);
+
+    const stored = await ApiKey.findById(apiKey._id);
+    expect(stored!.keyHash).toBe(sha256(key));
+    expect(JSON.stringify(stored)).not.toContain(key);
+  });
+
+  test('should track last use and stop working once revoked', async () => {
+    const { apiKey, key } = await createApiKey(user._id.toString(), {
+      name: 'Script',
+      scopes: ['events:read'],
+    });
+
+    const verified = await verifyApiKey(key, '10.0.0.1');
+    expect(verified?.user.email).toBe('alice@test.com');
+
+    const used = await ApiKey.findById(apiKey._id);
+    expect(used!.lastUsedAt).toBeInstanceOf(Date);
+    expect(used!.lastUsedIp).toBe('10.0.0.1');
+
+    // Other users cannot revoke it
+    const other = await User.create({ name: 'Bob', email: 'bob@test.com', role: 'user' });
+    expect(await revokeApiKey(other._id.toString(), apiKey._id.toString())).toBe(false);
+
+    expect(await revokeApiKey(user._id.toString(), apiKey._id.toString())).toBe(true);
+    expect(await verifyApiKey(key)).toBeNull();
+    expect(await listApiKeys(user._id.toString())).toEqual([]);
+  });
+
+  test('should reject expired keys', async () => {
+    const { apiKey, key } = await createApiKey(user._id.toString(), {
+      name: 'Script',
+      scopes: ['events:read'],
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    await ApiKey.updateOne({ _id: apiKey._id }, { expiresAt: new Date(Date.now() - 1000) });
+
+    expect(await verifyApiKey(key)).toBeNull();
+  });
+
+  test('should limit how many keys a user has', async () => {
+    for (let i = 0; i < 20; i++) {
+      await createApiKey(user._id.toString(), { name: `Key ${i}`, scopes: ['events:read'] });
+    }
+
+    await expect(
+      createApiKey(user._id.toString(), { name: 'One too many', scopes: ['events:read'] })
+    ).rejects.toThrow(ApiKeyError);
+  });
+});
+
+describe('Bearer authentication', () => {
+  test('should accept API keys on routes that allow their scope', async () => {
+    const { key } = await createApiKey(user._id.toString(), {
+      name: 'Script',
+      scopes: ['events:read'],
+    });
+
+    const allowed = await authenticateWith(`Bearer ${key}`, 'events:read');
+    expect(allowed.nextCalled).toBe(true);
+    expect(allowed.req.user?.userId).toBe(user._id.toString());
+    expect(allowed.req.apiKey?.scopes).toEqual(['events:read']);
+
+    // Routes without a scope refuse API keys
+    const refused = await authenticateWith(`Bearer ${key}`);
+    expect(refused.status).toBe(403);
+
+    expect((await authenticateWith('Bearer ssk_unknown', 'events:read')).status).toBe(401);
+  });
+
+  test('should refuse API keys without the scope', async () => {
+    const { key } = await createApiKey(user._id.toString(), {
+      name: 'Script',
+      scopes: ['profile:read'],
+    });
+
+    const result = await authenticateWith(`Bearer ${key}`, 'events:read');
+    expect(result.status).toBe(403);
+    expect(result.body.message).toBe('API key is missing the events:read scope');
+  });
+
+  test('should accept access tokens in the Authorization header', async () => {
+    const tokens = await createSession(user, {});
+
+    const result = await authenticateWith(`Bearer ${tokens.accessToken}`);
+    expect(result.nextCalled).toBe(true);
+    expect(result.req.user?.sessionId).toBe(tokens.sessionId);
+
+    expect((await authenticateWith('Bearer not-a-jwt')).status).toBe(401);
+  });
+});
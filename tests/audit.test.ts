@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import AuditLog from '../src/models/AuditLog';
+import User from '../src/models/User';
+import { findAuditEntries, recordAudit } from '../src/services/audit';
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await User.deleteMany({});
+  // The model refuses deletes; the audit log is append-only
+  await AuditLog.collection.deleteMany({});
+});
+
+describe('Audit log', () => {
+  test('should refuse to change or delete entries', async () => {
+    await recordAudit({ action: 'event.create', ip: '10.0.0.1' });
+    const entry = await AuditLog.findOne();
+
+    entry!.ip = '10.0.0.2';
+    await expect(entry!.save()).rejects.toThrow('cannot be changed or deleted');
+    await expect(AuditLog.updateMany({}, { ip: '10.0.0.2' })).rejects.toThrow();
+    await expect(AuditLog.deleteMany({})).rejects.toThrow();
+    await expect(AuditLog.findOneAndDelete({})).rejects.toThrow();
+
+    expect((await AuditLog.findOne())!.ip).toBe('10.0.0.1');
+  });
+
+  test('should filter by action, actor and event, newest first', async () => {
+    const admin = await User.create({ name: 'Admin', email: 'admin@test.com', role: 'admin' });
+    const eventId = new mongoose.Types.ObjectId();
+
+    await recordAudit({ action: 'assignment.trigger', actorId: admin._id, eventId });
+    await recordAudit({ action: 'assignment.view', actorId: admin._id, eventId });
+    await recordAudit({ action: 'assignment.view', eventId: new mongoose.Types.ObjectId() });
+
+    const views = await findAuditEntries({ action: 'assignment.view', page: 1, limit: 10 });
+    expect(views.total).toBe(2);
+
+    const byAdmin = await findAuditEntries({
+      actorId: admin._id.toString(),
+      eventId: eventId.toString(),
+      page: 1,
+      limit: 10,
+    });
+    expect(byAdmin.entries.map((e) => e.action)).toEqual([
+      'assignment.view',
+      'assignment.trigger',
+    ]);
+    expect((byAdmin.entries[0].actorId as unknown as { name: string }).name).toBe('Admin');
+  });
+
+  test('should page through entries and filter by time', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordAudit({ action: 'event.update', details: { i } });
+    }
+
+    const second = await findAuditEntries({ page: 2, limit: 2 });
+    expect(second.total).toBe(5);
+    expect(second.entries.map((e) => e.details.i)).toEqual([2, 1]);
+
+    const future = await findAuditEntries({
+      from: new Date(Date.now() + 60_000),
+      page: 1,
+      limit: 10,
+    });
+    expect(future.total).toBe(0);
+  });
+});
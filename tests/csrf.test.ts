@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import config from '../src/config';
+import { csrfProtection, CSRF_COOKIE, ensureCsrfToken } from '../src/middleware/csrf';
+import { csrfTokensMatch, generateCsrfToken, isValidCsrfToken } from '../src/utils/csrf';
+
+beforeAll(() => {
+  config.jwtSecret = 'test-secret';
+});
+
+const fakeRequest = (
+  method: string,
+  cookies: Record<string, string>,
+  headers: Record<string, string> = {}
+) =>
+  ({
+    method,
+    cookies,
+    get: (name: string) => headers[name.toLowerCase()],
+  }) as unknown as Request;
+
+const run = (req: Request) => {
+  let status = 200;
+  let nextCalled = false;
+  const res = {
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  };
+
+  csrfProtection(req, res as unknown as Response, () => {
+    nextCalled = true;
+  });
+  return { status, nextCalled };
+};
+
+describe('CSRF tokens', () => {
+  test('should only accept tokens signed by this server', () => {
+    const token = generateCsrfToken();
+
+    expect(isValidCsrfToken(token)).toBe(true);
+    expect(isValidCsrfToken(`${token.split('.')[0]}.forged`)).toBe(false);
+    expect(isValidCsrfToken('no-signature')).toBe(false);
+    expect(isValidCsrfToken(undefined)).toBe(false);
+  });
+
+  test('should require the header to repeat the cookie', () => {
+    const token = generateCsrfToken();
+
+    expect(csrfTokensMatch(token, token)).toBe(true);
+    expect(csrfTokensMatch(token, generateCsrfToken())).toBe(false);
+    expect(csrfTokensMatch(token, undefined)).toBe(false);
+  });
+
+  test('should reuse a valid cookie instead of issuing a new one', () => {
+    const token = generateCsrfToken();
+    const cookies: Record<string, string> = {};
+    const res = {
+      cookie: (name: string, value: string) => {
+        cookies[name] = value;
+      },
+    } as unknown as Response;
+
+    expect(ensureCsrfToken(fakeRequest('GET', { [CSRF_COOKIE]: token }), res)).toBe(token);
+    expect(cookies).toEqual({});
+
+    const issued = ensureCsrfToken(fakeRequest('GET', {}), res);
+    expect(cookies[CSRF_COOKIE]).toBe(issued);
+  });
+});
+
+describe('CSRF protection', () => {
+  test('should let safe methods through', () => {
+    expect(run(fakeRequest('GET', { token: 'jwt' })).nextCalled).toBe(true);
+  });
+
+  test('should reject state-changing requests without a matching header', () => {
+    const token = generateCsrfToken();
+    expect(run(fakeRequest('POST', { token: 'jwt', [CSRF_COOKIE]: token })).status).toBe(403);
+
+    const forged = run(
+      fakeRequest('DELETE', { token: 'jwt', [CSRF_COOKIE]: token }, {
+        'x-csrf-token': generateCsrfToken(),
+      })
+    );
+    expect(forged.status).toBe(403);
+
+    const allowed = run(
+      fakeRequest('POST', { token: 'jwt', [CSRF_COOKIE]: token }, { 'x-csrf-token': token })
+    );
+    expect(allowed.nextCalled).toBe(true);
+  });
+
+  test('should exempt bearer clients that send no auth cookie', () => {
+    const headers = { authorization: 'Bearer abc' };
+
+    expect(run(fakeRequest('POST', {}, headers)).nextCalled).toBe(true);
+    // A bearer header does not excuse a cookie-authenticated request
+    expect(run(fakeRequest('POST', { token: 'jwt' }, headers)).status).toBe(403);
+  });
+});
@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileTransport } from '../src/services/mailer';
+import {
+  assignmentReadyEmail,
+  joinConfirmationEmail,
+  passwordChangedEmail,
+  passwordResetEmail,
+} from '../src/services/emailTemplates';
+
+const event = {
+  id: 'event1',
+  name: 'Office Party',
+  budgetLimit: 25,
+  registrationDeadline: new Date('2030-12-01T18:00:00Z'),
+};
+
+describe('Email templates', () => {
+  test('should render join confirmations with the deadline', () => {
+    const email = joinConfirmationEmail('Alice', event);
+
+    expect(email.template).toBe('join-confirmation');
+    expect(email.subject).toBe('You joined Office Party');
+    expect(email.text).toContain('1 December 2030 at 18:00 UTC');
+    expect(email.html).toContain('<p>Hi Alice,</p>');
+  });
+
+  test('should only include the receiver label and wishlist in assignments', () => {
+    const email = assignmentReadyEmail('Alice', event, '#4', [
+      { title: 'Board game', estimatedPrice: 20, priority: 'high' },
+      { title: 'Socks', url: 'https://example.com/socks', priority: 'low' },
+    ]);
+
+    expect(email.text).toContain('receiver #4');
+    expect(email.text).toContain('- Board game (~20)');
+    expect(email.text).toContain('- Socks https://example.com/socks');
+    expect(email.html).toContain('<a href="https://example.com/socks">Socks</a>');
+  });
+
+  test('should include the reset link and its expiry', () => {
+    const email = passwordResetEmail('Alice', 'https://santa.test/reset-password?token=abc');
+
+    expect(email.template).toBe('password-reset');
+    expect(email.text).toContain('https://santa.test/reset-password?token=abc');
+    expect(email.text).toContain('expires in 60 minutes');
+  });
+
+  test('should list the API keys that survive a password change', () => {
+    const changed = passwordChangedEmail('Alice', {
+      active: [{ name: 'Slack bot', prefix: 'ssk_abc123' }],
+      revoked: 0,
+    });
+    const reset = passwordChangedEmail('Alice', { active: [], revoked: 2 });
+
+    expect(changed.text).toContain('Slack bot (ssk_abc123...)');
+    expect(reset.text).toContain('personal API keys (2) were revoked');
+    expect(reset.text).not.toContain('still work');
+  });
+
+  test('should escape user content in HTML', () => {
+    const email = joinConfirmationEmail('<script>alert(1)</script>', event);
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;');
+    // Plain text is sent as is
+    expect(email.text).toContain('<script>');
+  });
+});
+
+describe('File transport', () => {
+  test('should write each email as an .eml file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+
+    try {
+      const transport = new FileTransport('santa@example.com', dir);
+      await transport.send({
+        to: 'alice@example.com',
+        subject: 'Hello',
+        text: 'Plain body',
+        html: '<p>HTML body</p>',
+      });
+
+      const files = await fs.readdir(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/alice@example\.com\.eml$/);
+
+      const contents = await fs.readFile(path.join(dir, files[0]), 'utf8');
+      expect(contents).toContain('To: alice@example.com');
+      expect(contents).toContain('Subject: Hello');
+      expect(contents).toContain('Plain body');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should not overwrite emails sent in the same millisecond', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+
+    try {
+      const transport = new FileTransport('santa@example.com', dir);
+      const message = { to: 'alice@example.com', subject: 'Hi', text: 'Hi', html: '<p>Hi</p>' };
+      await transport.send(message);
+      await transport.send(message);
+
+      expect(await fs.readdir(dir)).toHaveLength(2);
+    } finally {
+      now.mockRestore();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,69 @@
+import { EventStatus } from '../src/models/Event';
+import {
+  assertTransition,
+  EventTransitionError,
+  hasAssignments,
+} from '../src/services/eventLifecycle';
+
+const HOUR = 60 * 60 * 1000;
+
+const event = (
+  status: EventStatus,
+  registrationDeadline = new Date(Date.now() + HOUR)
+) => ({
+  status,
+  registrationDeadline,
+});
+
+describe('Event state machine', () => {
+  test('should allow the normal lifecycle', () => {
+    expect(() => assertTransition(event('draft'), 'open')).not.toThrow();
+    expect(() => assertTransition(event('open'), 'closed')).not.toThrow();
+    expect(() =>
+      assertTransition(event('closed'), 'assigned', { viaDraw: true })
+    ).not.toThrow();
+    expect(() => assertTransition(event('assigned'), 'completed')).not.toThrow();
+  });
+
+  test('should only reach assigned through the draw', () => {
+    expect(() => assertTransition(event('closed'), 'assigned')).toThrow(
+      'Run the draw to assign an event'
+    );
+  });
+
+  test('should reject illegal transitions with the allowed alternatives', () => {
+    expect(() => assertTransition(event('assigned'), 'open')).toThrow(
+      'Cannot change event status from assigned to open (allowed: completed, cancelled)'
+    );
+    expect(() => assertTransition(event('draft'), 'assigned', { viaDraw: true })).toThrow(
+      EventTransitionError
+    );
+  });
+
+  test('should treat completed and cancelled as final', () => {
+    expect(() => assertTransition(event('cancelled'), 'open')).toThrow(
+      'cancelled is final'
+    );
+    expect(() => assertTransition(event('completed'), 'cancelled')).toThrow(
+      'completed is final'
+    );
+  });
+
+  test('should reject setting the current status again', () => {
+    expect(() => assertTransition(event('open'), 'open')).toThrow('Event is already open');
+  });
+
+  test('should only reopen registration before the deadline', () => {
+    expect(() => assertTransition(event('closed'), 'open')).not.toThrow();
+    expect(() =>
+      assertTransition(event('closed', new Date(Date.now() - HOUR)), 'open')
+    ).toThrow('Move the registration deadline into the future before reopening');
+  });
+
+  test('should expose assignments only once drawn', () => {
+    expect(hasAssignments(event('closed'))).toBe(false);
+    expect(hasAssignments(event('assigned'))).toBe(true);
+    expect(hasAssignments(event('completed'))).toBe(true);
+    expect(hasAssignments(event('cancelled'))).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import ExcelJS from 'exceljs';
+import {
+  ExportColumn,
+  ExportError,
+  selectColumns,
+  toCSV,
+  toFilename,
+  toJSON,
+  toXLSX,
+} from '../src/services/export';
+
+interface Row {
+  name: string;
+  budget: number;
+  notes?: string;
+}
+
+const columns: ExportColumn<Row>[] = [
+  { key: 'name', header: 'Name', value: (r) => r.name },
+  { key: 'budget', header: 'Budget', value: (r) => r.budget },
+  { key: 'notes', header: 'Notes', value: (r) => r.notes },
+];
+
+describe('CSV export', () => {
+  test('should quote commas, quotes and line breaks as RFC 4180 requires', () => {
+    const csv = toCSV(columns, [
+      { name: 'Smith, Jane', budget: 20, notes: 'Says "hi"\nand bye' },
+      { name: 'Zoë', budget: 5 },
+    ]);
+
+    expect(csv).toBe(
+      'Name,Budget,Notes\r\n' +
+        '"Smith, Jane",20,"Says ""hi""\nand bye"\r\n' +
+        'Zoë,5,\r\n'
+    );
+  });
+
+  test('should stop spreadsheets evaluating user content as formulas', () => {
+    const csv = toCSV(columns, [{ name: '=HYPERLINK("x")', budget: -5 }]);
+
+    expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""x"")",-5,`);
+  });
+});
+
+describe('Field selection', () => {
+  test('should export the requested fields in the requested order', () => {
+    const selected = selectColumns(columns, 'budget, name');
+
+    expect(toJSON(selected, [{ name: 'Ann', budget: 10 }])).toEqual([
+      { budget: 10, name: 'Ann' },
+    ]);
+  });
+
+  test('should reject unknown fields', () => {
+    expect(() => selectColumns(columns, 'name,password')).toThrow(ExportError);
+    expect(() => selectColumns(columns, 'name,password')).toThrow(
+      'Unknown fields: password'
+    );
+  });
+});
+
+describe('XLSX export', () => {
+  test('should write a readable workbook', async () => {
+    const buffer = await toXLSX(columns, [{ name: 'Zoë', budget: 5 }], 'Assignments');
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+    const sheet = workbook.getWorksheet('Assignments')!;
+
+    expect(sheet.getRow(1).values).toEqual([undefined, 'Name', 'Budget', 'Notes']);
+    expect(sheet.getRow(2).getCell(1).value).toBe('Zoë');
+    expect(sheet.getRow(2).getCell(2).value).toBe(5);
+  });
+});
+
+describe('Filenames', () => {
+  test('should reduce names to safe ASCII', () => {
+    expect(toFilename('Büro "Party" 2030/31')).toBe('buro-party-2030-31');
+    expect(toFilename('🎄')).toBe('export');
+  });
+});
@@ -0,0 +1,65 @@
+import { IEvent } from '../src/models/Event';
+import { formatReceiverLabel, LABEL_EMOJI, LABEL_WORDS } from '../src/services/labels';
+import { renderGiftTags, renderMasterList } from '../src/services/giftTags';
+import { getAllAssignments } from '../src/services/secretSanta';
+
+describe('Receiver labels', () => {
+  test('should show the receiver number by default', () => {
+    expect(formatReceiverLabel(7)).toBe('#7');
+    expect(formatReceiverLabel(7, 'numeric')).toBe('#7');
+  });
+
+  test('should map numbers to short word codes', () => {
+    expect(formatReceiverLabel(1, 'words')).toBe(LABEL_WORDS[0]);
+    expect(formatReceiverLabel(LABEL_WORDS.length + 1, 'words')).toBe(
+      `${LABEL_WORDS[0]}-2`
+    );
+  });
+
+  test('should map numbers to emoji pairs', () => {
+    expect(formatReceiverLabel(1, 'emoji')).toBe(LABEL_EMOJI[0] + LABEL_EMOJI[0]);
+    expect(formatReceiverLabel(2, 'emoji')).toBe(LABEL_EMOJI[0] + LABEL_EMOJI[1]);
+  });
+
+  test.each(['numeric', 'words', 'emoji'] as const)(
+    'should give unique %s labels within an event',
+    (scheme) => {
+      const count = 5000;
+      const labels = new Set(
+        Array.from({ length: count }, (_, i) => formatReceiverLabel(i + 1, scheme))
+      );
+
+      expect(labels.size).toBe(count);
+    }
+  );
+});
+
+describe('Gift tag sheets', () => {
+  const event = { name: 'Office <Party>' } as IEvent;
+  const assignments: Awaited<ReturnType<typeof getAllAssignments>> = [
+    {
+      santa: { id: 's1', name: 'Alice', email: 'alice@example.com', wishlist: [] },
+      receiver: { id: 'r1', name: 'Bob', email: 'bob@example.com', wishlist: [] },
+      receiverNumber: 1,
+      receiverLabel: 'HOLLY',
+      giftStatus: 'not-started',
+      trackingNumber: undefined,
+    },
+  ];
+
+  test('should only print the receiver label on tags', () => {
+    const html = renderGiftTags(event, assignments);
+
+    expect(html).toContain('HOLLY');
+    expect(html).not.toContain('Bob');
+    expect(html).not.toContain('Alice');
+    expect(html).toContain('Office &lt;Party&gt;');
+  });
+
+  test('should list receivers but not santas on the master list', () => {
+    const html = renderMasterList(event, assignments);
+
+    expect(html).toContain('<td>HOLLY</td><td>Bob</td>');
+    expect(html).not.toContain('Alice');
+  });
+});
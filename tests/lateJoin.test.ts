@@ -0,0 +1,36 @@
+import { chooseSplicePoint } from '../src/services/lateJoin';
+import { createSeededRandom } from '../src/utils/random';
+
+describe('Late join splicing', () => {
+  const receiverOf = new Map([
+    ['A', 'B'],
+    ['B', 'C'],
+    ['C', 'A'],
+  ]);
+
+  test('should pick a pair the newcomer can be spliced into', () => {
+    const santa = chooseSplicePoint(
+      receiverOf,
+      'N',
+      (s, r) => s !== r,
+      createSeededRandom('late')
+    );
+
+    expect(['A', 'B', 'C']).toContain(santa);
+  });
+
+  test('should respect exclusions on both new edges', () => {
+    // N is in a couple with B: B cannot draw N and N cannot draw B
+    const canDraw = (s: string, r: string) =>
+      s !== r && !(s === 'N' && r === 'B') && !(s === 'B' && r === 'N');
+
+    for (let i = 0; i < 20; i++) {
+      // A -> N -> B is out (N draws B), B -> N -> C is out (B draws N)
+      expect(chooseSplicePoint(receiverOf, 'N', canDraw)).toBe('C');
+    }
+  });
+
+  test('should return null when no pair can take the newcomer', () => {
+    expect(chooseSplicePoint(receiverOf, 'N', (s) => s !== 'N')).toBeNull();
+  });
+});
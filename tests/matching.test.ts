@@ -0,0 +1,247 @@
+import {
+  buildForbiddenMap,
+  generateAssignment,
+  UnsatisfiableDrawError,
+} from '../src/services/matching';
+import { createSeededRandom } from '../src/utils/random';
+
+const people = (...names: string[]) => names.map((name) => ({ id: name, name }));
+
+describe('Exclusion-aware matching', () => {
+  test('should never draw yourself', () => {
+    const participants = people('Alice', 'Bob', 'Charlie', 'David', 'Eve');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      []
+    );
+
+    for (let i = 0; i < 50; i++) {
+      const receivers = generateAssignment(participants, forbidden);
+      participants.forEach((santa, index) => {
+        expect(receivers[index].id).not.toBe(santa.id);
+      });
+      expect(receivers.map((r) => r.id).sort()).toEqual(participants.map((p) => p.id).sort());
+    }
+  });
+
+  test('should honour couples, teams and one-way pairs', () => {
+    const participants = people('Alice', 'Bob', 'Charlie', 'David', 'Eve', 'Frank');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [
+        { type: 'couple', userIds: ['Alice', 'Bob'] },
+        { type: 'team', userIds: ['Charlie', 'David', 'Eve'] },
+        { type: 'pair', userIds: ['Frank', 'Alice'] },
+      ]
+    );
+
+    expect(forbidden.get('Alice')!.has('Bob')).toBe(true);
+    expect(forbidden.get('Bob')!.has('Alice')).toBe(true);
+    expect(forbidden.get('Eve')!.has('Charlie')).toBe(true);
+    expect(forbidden.get('Frank')!.has('Alice')).toBe(true);
+    expect(forbidden.get('Alice')!.has('Frank')).toBe(false);
+
+    for (let i = 0; i < 50; i++) {
+      const receivers = generateAssignment(participants, forbidden);
+      participants.forEach((santa, index) => {
+        expect(forbidden.get(santa.id)!.has(receivers[index].id)).toBe(false);
+      });
+    }
+  });
+
+  test('should fall back to matching search when rejection sampling fails', () => {
+    const participants = people('A', 'B', 'C', 'D');
+    // Only the cycle A -> B -> C -> D -> A is allowed
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [
+        { type: 'couple', userIds: ['A', 'C'] },
+        { type: 'couple', userIds: ['B', 'D'] },
+        { type: 'pair', userIds: ['A', 'D'] },
+        { type: 'pair', userIds: ['B', 'A'] },
+        { type: 'pair', userIds: ['C', 'B'] },
+        { type: 'pair', userIds: ['D', 'C'] },
+      ]
+    );
+
+    const receivers = generateAssignment(participants, forbidden, { maxAttempts: 0 });
+    expect(receivers.map((r) => r.id)).toEqual(['B', 'C', 'D', 'A']);
+  });
+
+  test('should explain when a team is too large to draw', () => {
+    const participants = people('A', 'B', 'C', 'D', 'E');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [{ type: 'team', userIds: ['A', 'B', 'C'] }]
+    );
+
+    expect(() => generateAssignment(participants, forbidden)).toThrow(
+      UnsatisfiableDrawError
+    );
+
+    try {
+      generateAssignment(participants, forbidden);
+    } catch (error) {
+      const reasons = (error as UnsatisfiableDrawError).reasons;
+      expect(reasons).toHaveLength(1);
+      expect(reasons[0]).toMatch(
+        /\(3 people\) can only draw from (D and E|E and D) \(2 people\)/
+      );
+    }
+  });
+
+  test('should explain when someone cannot draw anybody', () => {
+    const participants = people('A', 'B', 'C');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [
+        { type: 'pair', userIds: ['A', 'B'] },
+        { type: 'pair', userIds: ['A', 'C'] },
+      ]
+    );
+
+    expect(() => generateAssignment(participants, forbidden)).toThrow(
+      UnsatisfiableDrawError
+    );
+
+    try {
+      generateAssignment(participants, forbidden);
+    } catch (error) {
+      expect((error as UnsatisfiableDrawError).reasons).toEqual([
+        'A is not allowed to draw anyone',
+      ]);
+    }
+  });
+});
+
+describe('Assignment modes', () => {
+  const followChain = (
+    participants: { id: string }[],
+    receivers: { id: string }[]
+  ): number => {
+    const receiverOf = new Map(participants.map((s, i) => [s.id, receivers[i].id]));
+    let current = participants[0].id;
+    let length = 0;
+    do {
+      current = receiverOf.get(current)!;
+      length++;
+    } while (current !== participants[0].id && length <= participants.length);
+    return length;
+  };
+
+  test('single-cycle should form one chain through everyone', () => {
+    const participants = people('A', 'B', 'C', 'D', 'E', 'F', 'G', 'H');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [{ type: 'couple', userIds: ['A', 'B'] }]
+    );
+
+    for (let i = 0; i < 50; i++) {
+      const receivers = generateAssignment(participants, forbidden, { mode: 'single-cycle' });
+      expect(followChain(participants, receivers)).toBe(participants.length);
+      participants.forEach((santa, index) => {
+        expect(forbidden.get(santa.id)!.has(receivers[index].id)).toBe(false);
+      });
+    }
+  });
+
+  test('single-cycle should use backtracking search when sampling fails', () => {
+    const participants = people('A', 'B', 'C', 'D', 'E', 'F');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [{ type: 'team', userIds: ['A', 'B', 'C'] }]
+    );
+
+    const receivers = generateAssignment(participants, forbidden, {
+      mode: 'single-cycle',
+      maxAttempts: 0,
+    });
+    expect(followChain(participants, receivers)).toBe(participants.length);
+  });
+
+  test('pairs-avoid-reciprocal should never produce A -> B -> A', () => {
+    const participants = people('A', 'B', 'C', 'D');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      []
+    );
+
+    for (const maxAttempts of [1000, 0]) {
+      for (let i = 0; i < 25; i++) {
+        const receivers = generateAssignment(participants, forbidden, {
+          mode: 'pairs-avoid-reciprocal',
+          maxAttempts,
+        });
+        const receiverOf = new Map(participants.map((s, j) => [s.id, receivers[j].id]));
+        for (const santa of participants) {
+          expect(receiverOf.get(receiverOf.get(santa.id)!)).not.toBe(santa.id);
+        }
+      }
+    }
+  });
+
+  test('pairs-avoid-reciprocal should reject two participants', () => {
+    const participants = people('A', 'B');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      []
+    );
+
+    expect(() =>
+      generateAssignment(participants, forbidden, { mode: 'pairs-avoid-reciprocal' })
+    ).toThrow(UnsatisfiableDrawError);
+  });
+
+  test('single-cycle should explain when no chain exists', () => {
+    // A and B may only draw each other, so no chain can include C and D
+    const participants = people('A', 'B', 'C', 'D');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [
+        { type: 'pair', userIds: ['A', 'C'] },
+        { type: 'pair', userIds: ['A', 'D'] },
+        { type: 'pair', userIds: ['B', 'C'] },
+        { type: 'pair', userIds: ['B', 'D'] },
+      ]
+    );
+
+    expect(() =>
+      generateAssignment(participants, forbidden, { mode: 'single-cycle' })
+    ).toThrow(UnsatisfiableDrawError);
+  });
+});
+
+describe('Seeded draws', () => {
+  test('should reproduce the same draw from the same seed', () => {
+    const participants = people('A', 'B', 'C', 'D', 'E', 'F', 'G');
+    const forbidden = buildForbiddenMap(
+      participants.map((p) => p.id),
+      [{ type: 'team', userIds: ['A', 'B', 'C'] }]
+    );
+
+    for (const mode of ['random', 'single-cycle', 'pairs-avoid-reciprocal'] as const) {
+      const first = generateAssignment(participants, forbidden, {
+        mode,
+        random: createSeededRandom('party-2026'),
+      });
+      const second = generateAssignment(participants, forbidden, {
+        mode,
+        random: createSeededRandom('party-2026'),
+      });
+      expect(second.map((r) => r.id)).toEqual(first.map((r) => r.id));
+    }
+  });
+
+  test('should produce values in [0, 1) that differ between seeds', () => {
+    const a = createSeededRandom('seed-a');
+    const b = createSeededRandom('seed-b');
+    const valuesA = Array.from({ length: 20 }, () => a());
+    const valuesB = Array.from({ length: 20 }, () => b());
+
+    for (const value of valuesA) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+    expect(valuesA).not.toEqual(valuesB);
+  });
+});
@@ -0,0 +1,160 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import User from '../src/models/User';
+import Event from '../src/models/Event';
+import Assignment from '../src/models/Assignment';
+import Participant from '../src/models/Participant';
+import OutboxEmail from '../src/models/OutboxEmail';
+import { EmailMessage, setEmailTransport } from '../src/services/mailer';
+import { joinConfirmationEmail } from '../src/services/emailTemplates';
+import {
+  notifyAssignmentsReady,
+  processOutbox,
+  queueEmail,
+  recoverInterruptedEmails,
+} from '../src/services/notifications';
+
+let mongoServer: MongoMemoryServer;
+let sent: EmailMessage[];
+let failNext: number;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+afterAll(async () => {
+  setEmailTransport(null);
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await User.deleteMany({});
+  await Event.deleteMany({});
+  await Assignment.deleteMany({});
+  await Participant.deleteMany({});
+  await OutboxEmail.deleteMany({});
+
+  sent = [];
+  failNext = 0;
+  setEmailTransport({
+    send: async (message) => {
+      if (failNext > 0) {
+        failNext--;
+        throw new Error('SMTP unavailable');
+      }
+      sent.push(message);
+    },
+  });
+});
+
+const event = {
+  id: 'event1',
+  name: 'Office Party',
+  budgetLimit: 25,
+  registrationDeadline: new Date(Date.now() + 86400000),
+};
+
+describe('Email Outbox', () => {
+  test('should send queued emails once', async () => {
+    await queueEmail('alice@test.com', joinConfirmationEmail('Alice', event));
+
+    expect(await processOutbox()).toBe(1);
+    expect(await processOutbox()).toBe(0);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe('alice@test.com');
+
+    const email = await OutboxEmail.findOne();
+    expect(email?.status).toBe('sent');
+    expect(email?.attempts).toBe(1);
+  });
+
+  test('should retry failed emails later and give up eventually', async () => {
+    await queueEmail('alice@test.com', joinConfirmationEmail('Alice', event));
+
+    failNext = 1;
+    expect(await processOutbox()).toBe(0);
+
+    let email = await OutboxEmail.findOne();
+    expect(email?.status).toBe('pending');
+    expect(email?.lastError).toBe('SMTP unavailable');
+    expect(email!.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await processOutbox()).toBe(0);
+
+    // Keeps failing until the retries run out
+    failNext = 100;
+    const farFuture = new Date(Date.now() + 7 * 86400000);
+    for (let i = 0; i < 10; i++) {
+      await processOutbox(farFuture);
+    }
+
+    email = await OutboxEmail.findOne();
+    expect(email?.status).toBe('failed');
+    expect(email?.attempts).toBe(5);
+    expect(sent).toHaveLength(0);
+  });
+
+  test('should requeue emails abandoned mid-send, but not ones still being sent', async () => {
+    const email = joinConfirmationEmail('Alice', event);
+    const sending = {
+      ...email,
+      status: 'sending',
+      claimedAt: new Date(Date.now() - 3600_000),
+    };
+    await OutboxEmail.create([
+      { ...sending, to: 'abandoned@test.com', attempts: 1 },
+      // Crashed the process on every attempt
+      { ...sending, to: 'crashing@test.com', attempts: 5 },
+      // Claimed just now, so possibly being sent by another instance
+      { ...sending, to: 'busy@test.com', attempts: 1, claimedAt: new Date() },
+    ]);
+
+    await recoverInterruptedEmails();
+
+    const status = async (to: string) => (await OutboxEmail.findOne({ to }))?.status;
+    expect(await status('abandoned@test.com')).toBe('pending');
+    expect(await status('crashing@test.com')).toBe('failed');
+    expect(await status('busy@test.com')).toBe('sending');
+  });
+
+  test('should tell santas only their receiver number and wishlist', async () => {
+    const party = await Event.create({
+      name: 'Office Party',
+      budgetLimit: 25,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'assigned',
+    });
+    const [santa, receiver] = await User.insertMany([
+      { name: 'Santa', email: 'santa@test.com', role: 'user' },
+      { name: 'Rudolph Receiver', email: 'receiver@test.com', role: 'user' },
+    ]);
+    await Participant.insertMany([
+      { eventId: party._id, userId: santa._id },
+      {
+        eventId: party._id,
+        userId: receiver._id,
+        wishlist: [{ title: 'Red nose polish' }],
+      },
+    ]);
+    await Assignment.create({
+      eventId: party._id,
+      santaUserId: santa._id,
+      receiverUserId: receiver._id,
+      receiverNumber: 3,
+    });
+
+    await notifyAssignmentsReady(party._id as mongoose.Types.ObjectId);
+    await processOutbox();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe('santa@test.com');
+    expect(sent[0].text).toContain('receiver #3');
+    expect(sent[0].text).toContain('Red nose polish');
+    expect(sent[0].text).not.toContain('Rudolph');
+    expect(sent[0].html).not.toContain('receiver@test.com');
+  });
+});
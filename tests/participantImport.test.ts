@@ -0,0 +1,69 @@
+import { parseCSV } from '../src/services/export';
+import { ImportError, parseImportRows } from '../src/services/participantImport';
+
+describe('CSV parsing', () => {
+  test('should read quoted fields, doubled quotes and line breaks', () => {
+    const records = parseCSV(
+      '\uFEFFname,notes\r\n"Smith, Jane","Says ""hi""\nand bye"\r\nZoë,\n\n'
+    );
+
+    expect(records).toEqual([
+      ['name', 'notes'],
+      ['Smith, Jane', 'Says "hi"\nand bye'],
+      ['Zoë', ''],
+    ]);
+  });
+
+  test('should reject an unterminated quote', () => {
+    expect(() => parseCSV('name\n"Jane')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('Import rows', () => {
+  test('should read columns in any order and split wishlists', () => {
+    const rows = parseImportRows(
+      'Email,Name,Wishlist,Team\nJANE@example.com,Jane,Socks; Book ;,Finance\n'
+    );
+
+    expect(rows).toEqual([
+      {
+        row: 2,
+        name: 'Jane',
+        email: 'jane@example.com',
+        team: 'Finance',
+        wishlist: ['Socks', 'Book'],
+        errors: [],
+      },
+    ]);
+  });
+
+  test('should store Gmail addresses the way sign-up does', () => {
+    const rows = parseImportRows(
+      'name,email\nJohn,John.Doe+santa@GMAIL.com\nJohn Again,johndoe@gmail.com\n'
+    );
+
+    expect(rows[0].email).toBe('johndoe@gmail.com');
+    expect(rows[1].errors).toEqual(['Email appears more than once in the file']);
+  });
+
+  test('should report problems per row', () => {
+    const rows = parseImportRows(
+      'name,email\nJane,jane@example.com\nJoe,not-an-email\nJane Again,jane@example.com\n,\n'
+    );
+
+    expect(rows.map((r) => r.errors)).toEqual([
+      [],
+      ['Email is not valid'],
+      ['Email appears more than once in the file'],
+      ['Email is required'],
+    ]);
+  });
+
+  test('should reject files without the required columns', () => {
+    expect(() => parseImportRows('name,team\nJane,Finance\n')).toThrow(ImportError);
+    expect(() => parseImportRows('name,team\nJane,Finance\n')).toThrow(
+      'Missing required columns: email'
+    );
+    expect(() => parseImportRows('name,email\n')).toThrow(ImportError);
+  });
+});
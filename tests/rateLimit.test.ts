@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import config from '../src/config';
+import AuditLog from '../src/models/AuditLog';
+import RateLimitCounter from '../src/models/RateLimitCounter';
+import { accountRateLimit, rateLimit } from '../src/middleware/rateLimit';
+import {
+  assertNotLockedOut,
+  clearLoginFailures,
+  LockoutError,
+  lockoutDurationMs,
+  MemoryStore,
+  MongoStore,
+  recordLoginFailure,
+  setRateLimitStore,
+} from '../src/services/rateLimit';
+
+let mongoServer: MongoMemoryServer;
+
+const start = new Date('2030-01-01T12:00:00Z');
+const later = (ms: number) => new Date(start.getTime() + ms);
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+afterAll(async () => {
+  setRateLimitStore(null);
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await RateLimitCounter.deleteMany({});
+  // The model refuses deletes; the audit log is append-only
+  await AuditLog.collection.deleteMany({});
+  setRateLimitStore(new MemoryStore());
+});
+
+describe.each([
+  ['memory', () => new MemoryStore()],
+  ['mongo', () => new MongoStore()],
+])('Rate limit %s store', (_name, createStore) => {
+  test('should count within a window and start over after it', async () => {
+    const store = createStore();
+
+    expect((await store.increment('ip:1', 1000, start)).count).toBe(1);
+    const second = await store.increment('ip:1', 1000, later(500));
+    expect(second.count).toBe(2);
+    expect(second.resetAt).toEqual(later(1000));
+
+    expect((await store.increment('ip:1', 1000, later(1000))).count).toBe(1);
+    expect(await store.get('ip:1', later(2000))).toBeNull();
+  });
+
+  test('should keep keys apart and forget reset keys', async () => {
+    const store = createStore();
+    await store.increment('ip:1', 1000, start);
+    await store.increment('ip:2', 1000, start);
+
+    await store.reset('ip:1');
+
+    expect(await store.get('ip:1', start)).toBeNull();
+    expect((await store.get('ip:2', start))?.count).toBe(1);
+  });
+});
+
+describe('Rate limit middleware', () => {
+  const call = async (limiter: ReturnType<typeof rateLimit>, ip: string, body = {}) => {
+    const headers: Record<string, string> = {};
+    let status = 200;
+    let nextCalled = false;
+    const res = {
+      set: (name: string, value: string) => {
+        headers[name] = value;
+        return res;
+      },
+      status: (code: number) => {
+        status = code;
+        return res;
+      },
+      json: () => res,
+    };
+
+    await limiter({ ip, body } as Request, res as unknown as Response, () => {
+      nextCalled = true;
+    });
+    return { headers, status, nextCalled };
+  };
+
+  test('should answer 429 with Retry-After once the limit is used up', async () => {
+    const limiter = rateLimit({ name: 'test', windowMs: 60_000, max: 2 });
+
+    expect((await call(limiter, '10.0.0.1')).headers['RateLimit-Remaining']).toBe('1');
+    expect((await call(limiter, '10.0.0.1')).nextCalled).toBe(true);
+
+    const blocked = await call(limiter, '10.0.0.1');
+    expect(blocked.status).toBe(429);
+    expect(blocked.nextCalled).toBe(false);
+    expect(Number(blocked.headers['Retry-After'])).toBeGreaterThan(0);
+
+    // Other clients have their own counter
+    expect((await call(limiter, '10.0.0.2')).nextCalled).toBe(true);
+  });
+
+  test('should count every spelling of an account against the same limit', async () => {
+    const variants = ['johndoe@gmail.com', 'John.Doe@gmail.com', 'johndoe+1@GMAIL.com'];
+    for (let i = 0; i < config.rateLimit.authMax; i++) {
+      const email = variants[i % variants.length];
+      await call(accountRateLimit, `10.0.0.${i}`, { email });
+    }
+
+    const blocked = await call(accountRateLimit, '10.0.1.1', {
+      email: 'j.o.h.n.doe@gmail.com',
+    });
+    expect(blocked.status).toBe(429);
+  });
+});
+
+describe('Login lockout', () => {
+  const failTimes = async (times: number, now: Date) => {
+    for (let i = 0; i < times; i++) {
+      await recordLoginFailure('alice@test.com', { ip: '10.0.0.1' }, now);
+    }
+  };
+
+  test('should double each lockout up to the maximum', () => {
+    expect(lockoutDurationMs(1)).toBe(config.rateLimit.lockoutBaseMinutes * 60_000);
+    expect(lockoutDurationMs(2)).toBe(config.rateLimit.lockoutBaseMinutes * 2 * 60_000);
+    expect(lockoutDurationMs(50)).toBe(config.rateLimit.lockoutMaxMinutes * 60_000);
+  });
+
+  test('should lock the account after repeated failures and audit it', async () => {
+    const { loginMaxFailures } = config.rateLimit;
+    await failTimes(loginMaxFailures - 1, start);
+    await assertNotLockedOut('alice@test.com', start);
+
+    await expect(failTimes(1, start)).rejects.toThrow(LockoutError);
+    await expect(assertNotLockedOut('alice@test.com', start)).rejects.toThrow(LockoutError);
+    // Other accounts are unaffected
+    await assertNotLockedOut('bob@test.com', start);
+
+    const entry = await AuditLog.findOne({ action: 'auth.lockout' });
+    expect(entry?.ip).toBe('10.0.0.1');
+    expect(entry?.details.email).toBe('alice@test.com');
+  });
+
+  test('should lock for longer the next time', async () => {
+    const { loginMaxFailures } = config.rateLimit;
+    await expect(failTimes(loginMaxFailures, start)).rejects.toThrow(LockoutError);
+
+    const afterFirst = later(lockoutDurationMs(1));
+    await assertNotLockedOut('alice@test.com', afterFirst);
+
+    try {
+      await failTimes(loginMaxFailures, afterFirst);
+      throw new Error('Expected a lockout');
+    } catch (error) {
+      expect((error as LockoutError).retryAfterSeconds).toBe(lockoutDurationMs(2) / 1000);
+    }
+  });
+
+  test('should forget failures after a successful sign-in', async () => {
+    const { loginMaxFailures } = config.rateLimit;
+    await failTimes(loginMaxFailures - 1, start);
+
+    await clearLoginFailures('alice@test.com');
+    await failTimes(loginMaxFailures - 1, start);
+
+    await assertNotLockedOut('alice@test.com', start);
+  });
+});
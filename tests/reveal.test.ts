@@ -0,0 +1,49 @@
+import { isRevealed } from '../src/services/reveal';
+import { isSealed } from '../src/services/sealing';
+
+describe('Reveal', () => {
+  const now = new Date('2030-12-24T18:00:00Z');
+
+  test('should stay hidden without a reveal time', () => {
+    expect(isRevealed({ status: 'assigned' }, now)).toBe(false);
+  });
+
+  test('should reveal once revealAt has passed', () => {
+    const event = { status: 'assigned' as const, revealAt: new Date('2030-12-24T17:00:00Z') };
+
+    expect(isRevealed(event, now)).toBe(true);
+    expect(isRevealed(event, new Date('2030-12-24T16:00:00Z'))).toBe(false);
+  });
+
+  test('should reveal early when an organiser revealed by hand', () => {
+    const revealAt = new Date('2030-12-25T12:00:00Z');
+
+    expect(isRevealed({ status: 'completed', revealAt, revealedAt: now }, now)).toBe(true);
+  });
+
+  test('should never reveal without assignments', () => {
+    expect(isRevealed({ status: 'cancelled', revealedAt: now }, now)).toBe(false);
+    expect(isRevealed({ status: 'open', revealAt: now }, now)).toBe(false);
+  });
+});
+
+describe('Sealed events', () => {
+  const now = new Date('2030-12-24T18:00:00Z');
+  const sealed = { sealed: true, status: 'assigned' as const };
+
+  test('should stay sealed until the reveal', () => {
+    const revealAt = new Date('2030-12-24T20:00:00Z');
+
+    expect(isSealed({ ...sealed, revealAt }, now)).toBe(true);
+    expect(isSealed({ ...sealed, revealAt }, new Date('2030-12-24T21:00:00Z'))).toBe(false);
+    expect(isSealed({ ...sealed, revealedAt: now }, now)).toBe(false);
+  });
+
+  test('should open once the seal is broken', () => {
+    expect(isSealed({ ...sealed, unsealedAt: now }, now)).toBe(false);
+  });
+
+  test('should never seal events without the setting', () => {
+    expect(isSealed({ sealed: false, status: 'assigned' }, now)).toBe(false);
+  });
+});
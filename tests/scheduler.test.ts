@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import User from '../src/models/User';
+import Event from '../src/models/Event';
+import Assignment from '../src/models/Assignment';
+import Participant from '../src/models/Participant';
+import ScheduledJob from '../src/models/ScheduledJob';
+import EventTransition from '../src/models/EventTransition';
+import AuditLog from '../src/models/AuditLog';
+import {
+  recoverInterruptedJobs,
+  runDueJobs,
+  scheduleEventJobs,
+} from '../src/services/scheduler';
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await User.deleteMany({});
+  await Event.deleteMany({});
+  await Assignment.deleteMany({});
+  await Participant.deleteMany({});
+  await ScheduledJob.deleteMany({});
+  await EventTransition.deleteMany({});
+  // The model refuses deletes; the audit log is append-only
+  await AuditLog.collection.deleteMany({});
+});
+
+const HOUR = 60 * 60 * 1000;
+
+const createEvent = (fields: Record<string, unknown> = {}) =>
+  Event.create({
+    name: 'Test Event',
+    budgetLimit: 50,
+    registrationDeadline: new Date(Date.now() + HOUR),
+    status: 'open',
+    ...fields,
+  });
+
+describe('Scheduled Jobs', () => {
+  test('should keep one pending job per type in line with the event', async () => {
+    const event = await createEvent({ drawAt: new Date(Date.now() + 2 * HOUR) });
+    await scheduleEventJobs(event);
+
+    expect(await ScheduledJob.countDocuments({ status: 'pending' })).toBe(2);
+
+    // Moving the deadline moves the job instead of adding another
+    event.registrationDeadline = new Date(Date.now() + 3 * HOUR);
+    event.drawAt = undefined;
+    await event.save();
+    await scheduleEventJobs(event);
+
+    const pending = await ScheduledJob.find({ status: 'pending' });
+    expect(pending).toHaveLength(1);
+    expect(pending[0].type).toBe('close-registration');
+    expect(pending[0].runAt).toEqual(event.registrationDeadline);
+    expect(await ScheduledJob.countDocuments({ status: 'cancelled' })).toBe(1);
+  });
+
+  test('should close registration once the deadline has passed', async () => {
+    const event = await createEvent({ registrationDeadline: new Date(Date.now() - 1000) });
+    await scheduleEventJobs(event);
+
+    expect(await runDueJobs()).toBe(1);
+
+    const updated = await Event.findById(event._id);
+    expect(updated?.status).toBe('closed');
+
+    const job = await ScheduledJob.findOne({ eventId: event._id });
+    expect(job?.status).toBe('completed');
+    expect(job?.attempts).toBe(1);
+    expect(job?.finishedAt).toBeDefined();
+
+    // Recorded in the event history as a change made by the scheduler
+    const [transition] = await EventTransition.find({ eventId: event._id });
+    expect(transition.from).toBe('open');
+    expect(transition.to).toBe('closed');
+    expect(transition.actorId).toBeUndefined();
+    expect(transition.reason).toBe('Registration deadline passed');
+  });
+
+  test('should not run jobs before they are due', async () => {
+    const event = await createEvent();
+    await scheduleEventJobs(event);
+
+    expect(await runDueJobs()).toBe(0);
+    expect((await Event.findById(event._id))?.status).toBe('open');
+  });
+
+  test('should run the draw at drawAt', async () => {
+    const event = await createEvent({
+      registrationDeadline: new Date(Date.now() - 2000),
+      drawAt: new Date(Date.now() - 1000),
+    });
+    const users = await User.insertMany(
+      ['A', 'B', 'C'].map((name) => ({ name, email: `${name}@test.com`, role: 'user' }))
+    );
+    await Participant.insertMany(
+      users.map((u) => ({ eventId: event._id, userId: u._id }))
+    );
+    await scheduleEventJobs(event);
+
+    expect(await runDueJobs()).toBe(2);
+
+    expect((await Event.findById(event._id))?.status).toBe('assigned');
+    expect(await Assignment.countDocuments({ eventId: event._id })).toBe(3);
+
+    const drawJob = await ScheduledJob.findOne({ type: 'run-draw' });
+    expect(drawJob?.status).toBe('completed');
+
+    const history = await EventTransition.find({ eventId: event._id }).sort({ createdAt: 1 });
+    expect(history.map((t) => t.to)).toEqual(['closed', 'assigned']);
+
+    const audit = await AuditLog.findOne({ action: 'assignment.trigger', eventId: event._id });
+    expect(audit?.system).toBe('scheduler');
+    expect(audit?.actorId).toBeUndefined();
+  });
+
+  test('should record failed draws in the job history', async () => {
+    const event = await createEvent({
+      registrationDeadline: new Date(Date.now() - 2000),
+      drawAt: new Date(Date.now() - 1000),
+    });
+    await scheduleEventJobs(event);
+
+    await runDueJobs();
+
+    const drawJob = await ScheduledJob.findOne({ type: 'run-draw' });
+    expect(drawJob?.status).toBe('failed');
+    expect(drawJob?.error).toBe('Need at least 2 participants for Secret Santa');
+  });
+
+  test('should requeue jobs interrupted by a restart', async () => {
+    const event = await createEvent();
+    const running = {
+      eventId: event._id,
+      runAt: new Date(),
+      status: 'running',
+      startedAt: new Date(Date.now() - HOUR),
+    };
+    await ScheduledJob.create([
+      { ...running, type: 'close-registration', attempts: 1 },
+      { ...running, type: 'run-draw', attempts: 3 },
+      // Started recently, so possibly still running on another instance
+      { ...running, type: 'deadline-reminder', attempts: 1, startedAt: new Date() },
+    ]);
+
+    await recoverInterruptedJobs();
+
+    expect((await ScheduledJob.findOne({ type: 'close-registration' }))?.status).toBe(
+      'pending'
+    );
+    expect((await ScheduledJob.findOne({ type: 'run-draw' }))?.status).toBe('failed');
+    expect((await ScheduledJob.findOne({ type: 'deadline-reminder' }))?.status).toBe(
+      'running'
+    );
+  });
+
+  test('should not requeue a job the event already has a pending one for', async () => {
+    const event = await createEvent();
+    await ScheduledJob.create([
+      {
+        eventId: event._id,
+        type: 'run-draw',
+        runAt: new Date(),
+        status: 'running',
+        attempts: 1,
+        startedAt: new Date(Date.now() - HOUR),
+      },
+      { eventId: event._id, type: 'run-draw', runAt: new Date(Date.now() + HOUR) },
+    ]);
+
+    await recoverInterruptedJobs();
+
+    const statuses = (await ScheduledJob.find({ type: 'run-draw' })).map((j) => j.status);
+    expect(statuses.sort()).toEqual(['cancelled', 'pending']);
+  });
+});
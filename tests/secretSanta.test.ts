@@ -1,9 +1,44 @@
-import { assignSecretSanta, getUserAssignment, getAllAssignments } from '../src/services/secretSanta';
+import { Request, Response } from 'express';
+import {
+  assignSecretSanta,
+  findUserAssignment,
+  getUserAssignment,
+  getAllAssignments,
+  verifyDraw,
+} from '../src/services/secretSanta';
 import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import User from '../src/models/User';
 import Event from '../src/models/Event';
 import Assignment from '../src/models/Assignment';
+import Exclusion from '../src/models/Exclusion';
+import Participant from '../src/models/Participant';
+import Message from '../src/models/Message';
+import OutboxEmail from '../src/models/OutboxEmail';
+import { countUnread, getThread, sendMessage } from '../src/services/messaging';
+import {
+  advanceGiftStatus,
+  getFulfilmentProgress,
+  GiftStatusError,
+} from '../src/services/fulfilment';
+import { withdrawParticipant } from '../src/services/withdrawal';
+import { approveLateJoin, LateJoinError, requestLateJoin } from '../src/services/lateJoin';
+import LateJoinRequest from '../src/models/LateJoinRequest';
+import { importParticipants } from '../src/services/participantImport';
+import { getRevealedPerson, isRevealed, revealEvent, RevealError } from '../src/services/reveal';
+import {
+  getSealedSummary,
+  isSealed,
+  SealError,
+  unsealEvent,
+} from '../src/services/sealing';
+import AuditLog from '../src/models/AuditLog';
+import {
+  exportAssignments,
+  getGiftTags,
+  getMasterList,
+} from '../src/controllers/assignmentController';
+import { importPreviousPairs } from '../src/controllers/exclusionController';
 
 let mongoServer: MongoMemoryServer;
 
@@ -22,8 +57,21 @@ beforeEach(async () => {
   await User.deleteMany({});
   await Event.deleteMany({});
   await Assignment.deleteMany({});
+  await Exclusion.deleteMany({});
+  await Participant.deleteMany({});
+  await Message.deleteMany({});
+  await LateJoinRequest.deleteMany({});
 });
 
+const addParticipants = async (
+  eventId: unknown,
+  users: { _id: unknown; wishlist?: unknown }[]
+) => {
+  await Participant.insertMany(
+    users.map((u) => ({ eventId, userId: u._id, wishlist: u.wishlist }))
+  );
+};
+
 describe('Secret Santa Assignment Algorithm', () => {
   test('should assign participants correctly with no self-assignments', async () => {
     // Create an event
@@ -36,12 +84,13 @@ describe('Secret Santa Assignment Algorithm', () => {
 
     // Create test users
     const users = await User.insertMany([
-      { name: 'Alice', email: 'alice@test.com', eventId: event._id, role: 'user' },
-      { name: 'Bob', email: 'bob@test.com', eventId: event._id, role: 'user' },
-      { name: 'Charlie', email: 'charlie@test.com', eventId: event._id, role: 'user' },
-      { name: 'David', email: 'david@test.com', eventId: event._id, role: 'user' },
-      { name: 'Eve', email: 'eve@test.com', eventId: event._id, role: 'user' },
+      { name: 'Alice', email: 'alice@test.com', role: 'user' },
+      { name: 'Bob', email: 'bob@test.com', role: 'user' },
+      { name: 'Charlie', email: 'charlie@test.com', role: 'user' },
+      { name: 'David', email: 'david@test.com', role: 'user' },
+      { name: 'Eve', email: 'eve@test.com', role: 'user' },
     ]);
+    await addParticipants(event._id, users);
 
     // Run assignment
     await assignSecretSanta(event._id as mongoose.Types.ObjectId);
@@ -87,9 +136,10 @@ describe('Secret Santa Assignment Algorithm', () => {
     });
 
     const users = await User.insertMany([
-      { name: 'User1', email: 'user1@test.com', eventId: event._id, role: 'user' },
-      { name: 'User2', email: 'user2@test.com', eventId: event._id, role: 'user' },
+      { name: 'User1', email: 'user1@test.com', role: 'user' },
+      { name: 'User2', email: 'user2@test.com', role: 'user' },
     ]);
+    await addParticipants(event._id, users);
 
     await assignSecretSanta(event._id as mongoose.Types.ObjectId);
 
@@ -110,12 +160,12 @@ describe('Secret Santa Assignment Algorithm', () => {
       status: 'open',
     });
 
-    await User.create({
+    const user = await User.create({
       name: 'Lonely User',
       email: 'lonely@test.com',
-      eventId: event._id,
       role: 'user',
     });
+    await addParticipants(event._id, [user]);
 
     await expect(
       assignSecretSanta(event._id as mongoose.Types.ObjectId)
@@ -131,10 +181,11 @@ describe('Secret Santa Assignment Algorithm', () => {
     });
 
     const users = await User.insertMany([
-      { name: 'User1', email: 'user1@test.com', eventId: event._id, role: 'user' },
-      { name: 'User2', email: 'user2@test.com', eventId: event._id, role: 'user' },
-      { name: 'User3', email: 'user3@test.com', eventId: event._id, role: 'user' },
+      { name: 'User1', email: 'user1@test.com', role: 'user' },
+      { name: 'User2', email: 'user2@test.com', role: 'user' },
+      { name: 'User3', email: 'user3@test.com', role: 'user' },
     ]);
+    await addParticipants(event._id, users);
 
     // First assignment
     await assignSecretSanta(event._id as mongoose.Types.ObjectId);
@@ -156,6 +207,149 @@ describe('Secret Santa Assignment Algorithm', () => {
   });
 });
 
+describe('Multiple Events', () => {
+  test('should only draw from the members of the given event', async () => {
+    const [office, family] = await Event.create([
+      {
+        name: 'Office',
+        budgetLimit: 20,
+        registrationDeadline: new Date(Date.now() + 86400000),
+        status: 'open',
+      },
+      {
+        name: 'Family',
+        budgetLimit: 50,
+        registrationDeadline: new Date(Date.now() + 86400000),
+        status: 'open',
+      },
+    ]);
+
+    const users = await User.insertMany([
+      { name: 'User1', email: 'user1@test.com', role: 'user' },
+      { name: 'User2', email: 'user2@test.com', role: 'user' },
+      { name: 'User3', email: 'user3@test.com', role: 'user' },
+      { name: 'User4', email: 'user4@test.com', role: 'user' },
+    ]);
+    // User1 is in both events
+    await addParticipants(office._id, users.slice(0, 3));
+    await addParticipants(family._id, [users[0], users[3]]);
+
+    await assignSecretSanta(office._id as mongoose.Types.ObjectId);
+    await assignSecretSanta(family._id as mongoose.Types.ObjectId);
+
+    const officeAssignments = await Assignment.find({ eventId: office._id });
+    const familyAssignments = await Assignment.find({ eventId: family._id });
+    expect(officeAssignments.length).toBe(3);
+    expect(familyAssignments.length).toBe(2);
+
+    const familyIds = [users[0], users[3]].map((u) => u._id.toString()).sort();
+    expect(familyAssignments.map((a) => a.santaUserId.toString()).sort()).toEqual(familyIds);
+  });
+});
+
+describe('Seeded Draws', () => {
+  test('should store a receipt that verifies against the saved assignments', async () => {
+    const event = await Event.create({
+      name: 'Audited Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+
+    const users = await User.insertMany([
+      { name: 'User1', email: 'user1@test.com', role: 'user' },
+      { name: 'User2', email: 'user2@test.com', role: 'user' },
+      { name: 'User3', email: 'user3@test.com', role: 'user' },
+      { name: 'User4', email: 'user4@test.com', role: 'user' },
+    ]);
+    await addParticipants(event._id, users);
+
+    const receipt = await assignSecretSanta(event._id as mongoose.Types.ObjectId, {
+      seed: 'christmas',
+    });
+    expect(receipt.seed).toBe('christmas');
+    expect(receipt.participantCount).toBe(4);
+
+    const result = await verifyDraw(event._id as mongoose.Types.ObjectId);
+    expect(result?.verified).toBe(true);
+    expect(result?.mismatchedAssignments).toBe(0);
+
+    // Tampering with a saved assignment must be detected
+    const [a1, a2] = await Assignment.find({ eventId: event._id });
+    await Assignment.updateOne({ _id: a1._id }, { receiverNumber: 99 });
+    await Assignment.updateOne({ _id: a2._id }, { receiverNumber: a1.receiverNumber });
+
+    const tampered = await verifyDraw(event._id as mongoose.Types.ObjectId);
+    expect(tampered?.verified).toBe(false);
+    expect(tampered?.mismatchedAssignments).toBe(2);
+  });
+});
+
+describe('Exclusion Rules', () => {
+  test('should never pair people who exclude each other', async () => {
+    const event = await Event.create({
+      name: 'Office Event',
+      budgetLimit: 40,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+
+    const users = await User.insertMany([
+      { name: 'Alice', email: 'alice@test.com', role: 'user' },
+      { name: 'Bob', email: 'bob@test.com', role: 'user' },
+      { name: 'Charlie', email: 'charlie@test.com', role: 'user' },
+      { name: 'David', email: 'david@test.com', role: 'user' },
+    ]);
+    await addParticipants(event._id, users);
+    const [alice, bob, charlie, david] = users;
+
+    await Exclusion.create([
+      { eventId: event._id, type: 'couple', userIds: [alice._id, bob._id] },
+      { eventId: event._id, type: 'pair', userIds: [charlie._id, david._id] },
+    ]);
+
+    await assignSecretSanta(event._id as mongoose.Types.ObjectId);
+
+    const assignments = await Assignment.find({ eventId: event._id });
+    const receiverOf = new Map(
+      assignments.map((a) => [a.santaUserId.toString(), a.receiverUserId.toString()])
+    );
+
+    expect(receiverOf.get(alice._id.toString())).not.toBe(bob._id.toString());
+    expect(receiverOf.get(bob._id.toString())).not.toBe(alice._id.toString());
+    expect(receiverOf.get(charlie._id.toString())).not.toBe(david._id.toString());
+  });
+
+  test('should reject unsatisfiable exclusions without touching the event', async () => {
+    const event = await Event.create({
+      name: 'Family Event',
+      budgetLimit: 40,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+
+    const users = await User.insertMany([
+      { name: 'User1', email: 'user1@test.com', role: 'user' },
+      { name: 'User2', email: 'user2@test.com', role: 'user' },
+      { name: 'User3', email: 'user3@test.com', role: 'user' },
+    ]);
+    await addParticipants(event._id, users);
+
+    await Exclusion.create({
+      eventId: event._id,
+      type: 'team',
+      userIds: users.slice(0, 2).map((u) => u._id),
+    });
+
+    await expect(
+      assignSecretSanta(event._id as mongoose.Types.ObjectId)
+    ).rejects.toThrow('No valid Secret Santa draw exists');
+
+    const updatedEvent = await Event.findById(event._id);
+    expect(updatedEvent?.status).toBe('open');
+  });
+});
+
 describe('Get User Assignment', () => {
   test('should return user assignment with wishlist', async () => {
     const event = await Event.create({
@@ -165,22 +359,25 @@ describe('Get User Assignment', () => {
       status: 'assigned',
     });
 
-    const [user1, user2] = await User.insertMany([
+    const users = await User.insertMany([
       {
         name: 'User1',
         email: 'user1@test.com',
-        eventId: event._id,
         role: 'user',
-        wishlist: { wishText: 'I want books', link: 'https://example.com' },
+        wishlist: [{ title: 'I want books', url: 'https://example.com' }],
       },
       {
         name: 'User2',
         email: 'user2@test.com',
-        eventId: event._id,
         role: 'user',
-        wishlist: { wishText: 'I want games', link: '' },
+        wishlist: [
+          { title: 'I want games', priority: 'high' },
+          { title: 'Puzzles' },
+        ],
       },
     ]);
+    await addParticipants(event._id, users);
+    const [user1, user2] = users;
 
     await Assignment.create({
       eventId: event._id,
@@ -196,7 +393,11 @@ describe('Get User Assignment', () => {
 
     expect(assignment).not.toBeNull();
     expect(assignment?.receiverNumber).toBe(1);
-    expect(assignment?.receiverWishlist.wishText).toBe('I want games');
+    expect(assignment?.receiverWishlist.map((item) => item.title)).toEqual([
+      'I want games',
+      'Puzzles',
+    ]);
+    expect(assignment?.receiverWishlist[0].priority).toBe('high');
   });
 
   test('should return null for non-existent assignment', async () => {
@@ -210,9 +411,9 @@ describe('Get User Assignment', () => {
     const user = await User.create({
       name: 'User',
       email: 'user@test.com',
-      eventId: event._id,
       role: 'user',
     });
+    await addParticipants(event._id, [user]);
 
     const assignment = await getUserAssignment(
       event._id as mongoose.Types.ObjectId,
@@ -222,3 +423,577 @@ describe('Get User Assignment', () => {
     expect(assignment).toBeNull();
   });
 });
+
+describe('Anonymous Messaging', () => {
+  const setup = async () => {
+    const event = await Event.create({
+      name: 'Test Event',
+      budgetLimit: 50,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'assigned',
+    });
+
+    const [santa, receiver] = await User.insertMany([
+      { name: 'Santa', email: 'santa@test.com', role: 'user' },
+      { name: 'Receiver', email: 'receiver@test.com', role: 'user' },
+    ]);
+
+    await Assignment.create({
+      eventId: event._id,
+      santaUserId: santa._id,
+      receiverUserId: receiver._id,
+      receiverNumber: 7,
+    });
+
+    return {
+      eventId: event._id.toString(),
+      santaId: santa._id.toString(),
+      receiverId: receiver._id.toString(),
+    };
+  };
+
+  test('should never reveal the santa to the receiver', async () => {
+    const { eventId, santaId, receiverId } = await setup();
+
+    const santaSide = await findUserAssignment(eventId, santaId, 'santa');
+    await sendMessage(santaSide!, 'santa', 'What size are you?');
+
+    const receiverSide = await findUserAssignment(eventId, receiverId, 'receiver');
+    const thread = await getThread(receiverSide!, 'receiver');
+
+    expect(thread.messages).toHaveLength(1);
+    expect(thread.messages[0].from).toBe('Your Santa');
+
+    const payload = JSON.stringify(thread);
+    expect(payload).not.toContain(santaId);
+    expect(payload).not.toContain('santa@test.com');
+  });
+
+  test('should track unread counts and mark messages read when viewed', async () => {
+    const { eventId, santaId, receiverId } = await setup();
+
+    const santaSide = await findUserAssignment(eventId, santaId, 'santa');
+    await sendMessage(santaSide!, 'santa', 'What size are you?');
+    await sendMessage(santaSide!, 'santa', 'Any allergies?');
+
+    expect(await countUnread(eventId, receiverId)).toEqual({
+      asSanta: 0,
+      asReceiver: 2,
+      total: 2,
+    });
+
+    const receiverSide = await findUserAssignment(eventId, receiverId, 'receiver');
+    expect((await getThread(receiverSide!, 'receiver')).unreadCount).toBe(2);
+    await sendMessage(receiverSide!, 'receiver', 'Medium, no allergies');
+
+    expect((await countUnread(eventId, receiverId)).total).toBe(0);
+
+    const reply = (await getThread(santaSide!, 'santa')).messages[2];
+    expect(reply.from).toBe('Receiver #7');
+    expect((await countUnread(eventId, santaId)).total).toBe(0);
+  });
+});
+
+describe('Gift Fulfilment', () => {
+  const setup = async () => {
+    const event = await Event.create({
+      name: 'Test Event',
+      budgetLimit: 50,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'assigned',
+    });
+
+    const users = await User.insertMany(
+      ['A', 'B', 'C'].map((name) => ({
+        name,
+        email: `${name.toLowerCase()}@test.com`,
+        role: 'user',
+      }))
+    );
+
+    const assignments = await Assignment.insertMany(
+      users.map((user, i) => ({
+        eventId: event._id,
+        santaUserId: user._id,
+        receiverUserId: users[(i + 1) % users.length]._id,
+        receiverNumber: i + 1,
+      }))
+    );
+
+    return { event, assignments };
+  };
+
+  test('should move gifts forward, allowing skipped steps', async () => {
+    const { assignments } = await setup();
+    const [assignment] = assignments;
+
+    expect(assignment.giftStatus).toBe('not-started');
+
+    await advanceGiftStatus(assignment, 'santa', 'shipped', 'TRACK123');
+    expect(assignment.giftStatus).toBe('shipped');
+    expect(assignment.trackingNumber).toBe('TRACK123');
+
+    await advanceGiftStatus(assignment, 'receiver', 'received');
+    expect(assignment.giftStatus).toBe('received');
+  });
+
+  test('should reject moving backwards and the wrong side advancing', async () => {
+    const { assignments } = await setup();
+    const [assignment] = assignments;
+
+    await advanceGiftStatus(assignment, 'santa', 'delivered');
+
+    await expect(advanceGiftStatus(assignment, 'santa', 'purchased')).rejects.toThrow(
+      GiftStatusError
+    );
+    await expect(advanceGiftStatus(assignment, 'santa', 'received')).rejects.toThrow(
+      'Only the receiver can confirm a gift was received'
+    );
+    await expect(advanceGiftStatus(assignment, 'receiver', 'shipped')).rejects.toThrow(
+      GiftStatusError
+    );
+  });
+
+  test('should aggregate progress and list santas who have not started', async () => {
+    const { event, assignments } = await setup();
+
+    await advanceGiftStatus(assignments[0], 'santa', 'purchased');
+    await advanceGiftStatus(assignments[1], 'santa', 'delivered');
+    await advanceGiftStatus(assignments[1], 'receiver', 'received');
+
+    const progress = await getFulfilmentProgress(event._id as mongoose.Types.ObjectId);
+
+    expect(progress.total).toBe(3);
+    expect(progress.counts).toEqual({
+      'not-started': 1,
+      purchased: 1,
+      shipped: 0,
+      delivered: 0,
+      received: 1,
+    });
+    expect(progress.purchasedPercent).toBe(67);
+    expect(progress.receivedPercent).toBe(33);
+    expect(progress.notStarted.map((s) => s.name)).toEqual(['C']);
+  });
+});
+
+describe('Participant Withdrawal', () => {
+  test('should keep every unaffected pairing and receiver number', async () => {
+    const event = await Event.create({
+      name: 'Withdrawal Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+      assignmentMode: 'single-cycle',
+    });
+
+    const users = await User.insertMany(
+      ['A', 'B', 'C', 'D', 'E'].map((name) => ({
+        name,
+        email: `${name.toLowerCase()}@test.com`,
+        role: 'user',
+      }))
+    );
+    await addParticipants(event._id, users);
+    await assignSecretSanta(event._id as mongoose.Types.ObjectId);
+
+    const before = await Assignment.find({ eventId: event._id });
+    const withdrawnId = users[2]._id.toString();
+    const own = before.find((a) => a.santaUserId.toString() === withdrawnId)!;
+    const inbound = before.find((a) => a.receiverUserId.toString() === withdrawnId)!;
+
+    const { reassignedSantaIds } = await withdrawParticipant(
+      (await Event.findById(event._id))!,
+      withdrawnId
+    );
+    expect(reassignedSantaIds).toEqual([inbound.santaUserId.toString()]);
+
+    const after = await Assignment.find({ eventId: event._id });
+    expect(after).toHaveLength(4);
+    expect(await Participant.countDocuments({ eventId: event._id })).toBe(4);
+
+    for (const assignment of after) {
+      const previous = before.find((a) => a._id.equals(assignment._id))!;
+      if (assignment._id.equals(inbound._id)) {
+        // The santa inherits the withdrawn person's receiver and their number
+        expect(assignment.receiverUserId.toString()).toBe(own.receiverUserId.toString());
+        expect(assignment.receiverNumber).toBe(own.receiverNumber);
+      } else {
+        expect(assignment.receiverUserId.toString()).toBe(
+          previous.receiverUserId.toString()
+        );
+        expect(assignment.receiverNumber).toBe(previous.receiverNumber);
+      }
+    }
+
+    const updated = await Event.findById(event._id);
+    expect(updated?.draw?.amendedAt).toBeDefined();
+  });
+
+  test('should only remove the membership before the draw', async () => {
+    const event = await Event.create({
+      name: 'Open Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+    const user = await User.create({ name: 'A', email: 'a@test.com', role: 'user' });
+    await addParticipants(event._id, [user]);
+
+    const result = await withdrawParticipant(event, user._id.toString());
+
+    expect(result.reassignedSantaIds).toEqual([]);
+    expect(await Participant.countDocuments({ eventId: event._id })).toBe(0);
+  });
+});
+
+describe('Late Join', () => {
+  test('should splice the newcomer in with a fresh receiver number', async () => {
+    const event = await Event.create({
+      name: 'Late Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+
+    const users = await User.insertMany(
+      ['A', 'B', 'C'].map((name) => ({
+        name,
+        email: `${name.toLowerCase()}@test.com`,
+        role: 'user',
+      }))
+    );
+    await addParticipants(event._id, users);
+    await assignSecretSanta(event._id as mongoose.Types.ObjectId);
+
+    const before = await Assignment.find({ eventId: event._id });
+    const newcomer = await User.create({ name: 'N', email: 'n@test.com', role: 'user' });
+
+    const assigned = (await Event.findById(event._id))!;
+    const request = await requestLateJoin(assigned, newcomer._id.toString());
+    await approveLateJoin(assigned, request, users[0]._id.toString());
+
+    const after = await Assignment.find({ eventId: event._id });
+    expect(after).toHaveLength(4);
+    expect((await LateJoinRequest.findById(request._id))?.status).toBe('approved');
+
+    const newcomerId = newcomer._id.toString();
+    const outbound = after.find((a) => a.santaUserId.toString() === newcomerId)!;
+    const inbound = after.find((a) => a.receiverUserId.toString() === newcomerId)!;
+
+    // A -> N -> B: N inherits A's old receiver and that receiver's number
+    const original = before.find((a) => a._id.equals(inbound._id))!;
+    expect(outbound.receiverUserId.toString()).toBe(original.receiverUserId.toString());
+    expect(outbound.receiverNumber).toBe(original.receiverNumber);
+    expect(inbound.receiverNumber).toBe(4);
+
+    // Everybody else is untouched
+    for (const assignment of before.filter((a) => !a._id.equals(inbound._id))) {
+      const current = after.find((a) => a._id.equals(assignment._id))!;
+      expect(current.receiverUserId.toString()).toBe(assignment.receiverUserId.toString());
+      expect(current.receiverNumber).toBe(assignment.receiverNumber);
+    }
+  });
+
+  test('should leave no membership or join email behind when it fails', async () => {
+    const event = await Event.create({
+      name: 'Late Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+
+    const users = await User.insertMany(
+      ['A', 'B', 'C'].map((name) => ({
+        name,
+        email: `${name.toLowerCase()}@test.com`,
+        role: 'user',
+      }))
+    );
+    await addParticipants(event._id, users);
+    await assignSecretSanta(event._id as mongoose.Types.ObjectId);
+
+    const newcomer = await User.create({ name: 'N', email: 'n@test.com', role: 'user' });
+    // Nobody may draw the newcomer, so there is nowhere to splice them in
+    await Exclusion.create({
+      eventId: event._id,
+      type: 'team',
+      userIds: [...users, newcomer].map((u) => u._id),
+    });
+    await OutboxEmail.deleteMany({});
+
+    const assigned = (await Event.findById(event._id))!;
+    const request = await requestLateJoin(assigned, newcomer._id.toString());
+    await expect(
+      approveLateJoin(assigned, request, users[0]._id.toString())
+    ).rejects.toThrow(LateJoinError);
+
+    expect(await Participant.exists({ eventId: event._id, userId: newcomer._id })).toBeNull();
+    expect(await OutboxEmail.countDocuments({ template: 'join-confirmation' })).toBe(0);
+    expect((await LateJoinRequest.findById(request._id))?.status).toBe('pending');
+  });
+
+  test('should send users to the normal join while registration is open', async () => {
+    const event = await Event.create({
+      name: 'Open Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+    const user = await User.create({ name: 'A', email: 'a@test.com', role: 'user' });
+
+    await expect(requestLateJoin(event, user._id.toString())).rejects.toThrow(
+      'Registration is still open; join the event directly'
+    );
+  });
+});
+
+describe('Reveal', () => {
+  test('should unmask both sides once an organiser reveals', async () => {
+    const event = await Event.create({
+      name: 'Reveal Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      revealAt: new Date(Date.now() + 2 * 86400000),
+      status: 'assigned',
+    });
+    const [santa, receiver] = await User.insertMany([
+      { name: 'Santa', email: 'santa@test.com', role: 'user' },
+      { name: 'Receiver', email: 'receiver@test.com', role: 'user' },
+    ]);
+    await Assignment.create({
+      eventId: event._id,
+      santaUserId: santa._id,
+      receiverUserId: receiver._id,
+      receiverNumber: 1,
+    });
+    const eventId = event._id.toString();
+
+    expect(isRevealed(event)).toBe(false);
+
+    await revealEvent(event, santa._id.toString());
+
+    const reloaded = await Event.findById(event._id);
+    expect(isRevealed(reloaded!)).toBe(true);
+    expect(
+      (await getRevealedPerson(eventId, receiver._id.toString(), 'receiver'))?.name
+    ).toBe('Santa');
+    expect((await getRevealedPerson(eventId, santa._id.toString(), 'santa'))?.name).toBe(
+      'Receiver'
+    );
+
+    await expect(revealEvent(reloaded!)).rejects.toThrow(RevealError);
+  });
+});
+
+describe('Sealed events', () => {
+  const setup = async () => {
+    const event = await Event.create({
+      name: 'Blind Event',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'assigned',
+      sealed: true,
+    });
+    const [santa, receiver, latecomer] = await User.insertMany([
+      { name: 'Santa', email: 'santa@test.com', role: 'user' },
+      { name: 'Receiver', email: 'receiver@test.com', role: 'user' },
+      { name: 'Latecomer', email: 'late@test.com', role: 'user' },
+    ]);
+    await Participant.insertMany(
+      [santa, receiver, latecomer].map((u) => ({ eventId: event._id, userId: u._id }))
+    );
+    await Assignment.create({
+      eventId: event._id,
+      santaUserId: santa._id,
+      receiverUserId: receiver._id,
+      receiverNumber: 1,
+    });
+    return { event, santa };
+  };
+
+  test('should only summarise who has an assignment', async () => {
+    const { event, santa } = await setup();
+
+    const summary = await getSealedSummary(event._id as mongoose.Types.ObjectId);
+
+    expect(summary.participantCount).toBe(3);
+    expect(summary.assignmentCount).toBe(1);
+    expect(summary.giftStatusCounts['not-started']).toBe(1);
+    const flags = Object.fromEntries(
+      summary.participants.map((p) => [p.name, p.hasAssignment])
+    );
+    expect(flags).toEqual({ Santa: true, Receiver: false, Latecomer: false });
+    expect(JSON.stringify(summary)).not.toContain('receiverNumber');
+    expect(summary.participants.find((p) => p.name === 'Santa')?.id.toString()).toBe(
+      santa._id.toString()
+    );
+  });
+
+  test('should record who broke the seal and why', async () => {
+    const { event, santa } = await setup();
+    // The model refuses deletes; the audit log is append-only
+    await AuditLog.collection.deleteMany({});
+
+    await unsealEvent(event, 'Santa left the company', {
+      actorId: santa._id.toString(),
+      ip: '10.0.0.1',
+    });
+
+    const reloaded = await Event.findById(event._id);
+    expect(isSealed(reloaded!)).toBe(false);
+    expect(reloaded!.unsealReason).toBe('Santa left the company');
+
+    const entry = await AuditLog.findOne({ action: 'assignment.unseal' });
+    expect(entry?.actorId?.toString()).toBe(santa._id.toString());
+    expect(entry?.details.reason).toBe('Santa left the company');
+
+    await expect(unsealEvent(reloaded!, 'Again', {})).rejects.toThrow(SealError);
+  });
+
+  test('should stay sealed if the unseal cannot be audited', async () => {
+    const { event } = await setup();
+    const create = jest.spyOn(AuditLog, 'create').mockRejectedValueOnce(new Error('down'));
+
+    await expect(unsealEvent(event, 'Dispute', {})).rejects.toThrow('down');
+    create.mockRestore();
+
+    const reloaded = await Event.findById(event._id);
+    expect(isSealed(reloaded!)).toBe(true);
+    expect(reloaded!.unsealedAt).toBeUndefined();
+  });
+
+  test('should refuse to export or print the map', async () => {
+    const { event } = await setup();
+
+    for (const handler of [exportAssignments, getMasterList, getGiftTags]) {
+      const req = { params: { id: event._id.toString() }, query: { format: 'json' } };
+      const res = {
+        statusCode: 200,
+        body: undefined as unknown,
+        status(code: number) {
+          this.statusCode = code;
+          return this;
+        },
+        json(data: unknown) {
+          this.body = data;
+          return this;
+        },
+        type() {
+          return this;
+        },
+        send(data: unknown) {
+          this.body = data;
+          return this;
+        },
+      };
+
+      await handler(req as unknown as Request, res as unknown as Response);
+
+      expect(res.statusCode).toBe(403);
+      expect(JSON.stringify(res.body)).not.toContain('Receiver');
+    }
+  });
+
+  test('should refuse to copy the map into another event as exclusions', async () => {
+    const { event, santa } = await setup();
+    const other = await Event.create({
+      name: 'Same People',
+      budgetLimit: 30,
+      registrationDeadline: new Date(Date.now() + 86400000),
+    });
+    const req = {
+      params: { id: other._id.toString() },
+      body: { sourceEventId: event._id.toString() },
+      user: { userId: santa._id.toString(), email: 'santa@test.com', role: 'admin' },
+    };
+    const res = {
+      statusCode: 200,
+      body: undefined as unknown,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(data: unknown) {
+        this.body = data;
+        return this;
+      },
+    };
+
+    await importPreviousPairs(req as unknown as Request, res as unknown as Response);
+
+    expect(res.statusCode).toBe(403);
+    expect(await Exclusion.countDocuments({ eventId: other._id })).toBe(0);
+  });
+});
+
+describe('Participant Import', () => {
+  const csv =
+    'name,email,team,wishlist\n' +
+    'Existing,existing@test.com,Finance,\n' +
+    'New Person,new@test.com,Finance,Socks;Book\n' +
+    'Broken,not-an-email,,\n';
+
+  const setup = async () => {
+    const event = await Event.create({
+      name: 'Company Event',
+      budgetLimit: 20,
+      registrationDeadline: new Date(Date.now() + 86400000),
+      status: 'open',
+    });
+    await User.create({ name: 'Existing', email: 'existing@test.com', role: 'user' });
+    return event;
+  };
+
+  test('should not write anything in a dry run', async () => {
+    const event = await setup();
+
+    const report = await importParticipants(event, csv, { dryRun: true });
+
+    expect(report.rows.map((r) => r.status)).toEqual(['linked', 'created', 'error']);
+    expect(report.teams).toEqual([{ name: 'Finance', members: 2, status: 'created' }]);
+    expect(await User.countDocuments()).toBe(1);
+    expect(await Participant.countDocuments({ eventId: event._id })).toBe(0);
+    expect(await Exclusion.countDocuments({ eventId: event._id })).toBe(0);
+  });
+
+  test('should create and link users, wishlists and teams', async () => {
+    const event = await setup();
+
+    const report = await importParticipants(event, csv);
+
+    expect(report.summary).toEqual({
+      total: 3,
+      created: 1,
+      linked: 1,
+      alreadyJoined: 0,
+      failed: 1,
+    });
+    const created = await User.findOne({ email: 'new@test.com' });
+    const participant = await Participant.findOne({ eventId: event._id, userId: created!._id });
+    expect(participant!.wishlist.map((item) => item.title)).toEqual(['Socks', 'Book']);
+
+    const team = await Exclusion.findOne({ eventId: event._id, type: 'team' });
+    expect(team!.label).toBe('Finance');
+    expect(team!.userIds).toHaveLength(2);
+
+    // Importing again only reports the existing memberships
+    const again = await importParticipants(event, csv);
+    expect(again.summary.alreadyJoined).toBe(2);
+    expect(await Exclusion.countDocuments({ eventId: event._id })).toBe(1);
+  });
+
+  test('should link a dotted Gmail row to the user who signed up without dots', async () => {
+    const event = await setup();
+    await User.create({ name: 'John', email: 'johndoe@gmail.com', role: 'user' });
+
+    const report = await importParticipants(
+      event,
+      'name,email\nJohn,John.Doe@gmail.com\nJane,Jane.Roe+santa@gmail.com\n'
+    );
+
+    expect(report.rows.map((r) => r.status)).toEqual(['linked', 'created']);
+    expect(await User.countDocuments({ email: 'johndoe@gmail.com' })).toBe(1);
+    expect(await User.exists({ email: 'janeroe@gmail.com' })).toBeTruthy();
+  });
+});
@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import config from '../src/config';
+import User, { IUser } from '../src/models/User';
+import Session from '../src/models/Session';
+import { generateInviteToken, verifyToken } from '../src/utils/jwt';
+import { sha256 } from '../src/utils/random';
+import {
+  createSession,
+  isSessionActive,
+  listSessions,
+  refreshSession,
+  revokeAllSessions,
+  revokeRefreshToken,
+  revokeSession,
+  SessionError,
+} from '../src/services/sessions';
+
+let mongoServer: MongoMemoryServer;
+let user: IUser;
+
+const client = { userAgent: 'Firefox', ip: '10.0.0.1' };
+
+beforeAll(async () => {
+  config.jwtSecret = 'test-secret';
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await User.deleteMany({});
+  await Session.deleteMany({});
+  user = await User.create({ name: 'Alice', email: 'alice@test.com', role: 'user' });
+});
+
+describe('Sessions', () => {
+  test('should issue an access token naming its session', async () => {
+    const tokens = await createSession(user, client);
+
+    const payload = verifyToken(tokens.accessToken);
+    expect(payload.userId).toBe(user._id.toString());
+    expect(payload.sessionId).toBe(tokens.sessionId);
+    expect(await isSessionActive(tokens.sessionId)).toBe(true);
+
+    const stored = await Session.findById(tokens.sessionId);
+    // Only a hash of the refresh token is stored
+    expect(stored!.refreshTokenHash).toBe(sha256(tokens.refreshToken.split('.')[1]));
+    expect(stored!.userAgent).toBe('Firefox');
+  });
+
+  test('should not accept an invite link as an access token', () => {
+    const invite = generateInviteToken({
+      inviteId: new mongoose.Types.ObjectId().toString(),
+      eventId: new mongoose.Types.ObjectId().toString(),
+    });
+
+    expect(() => verifyToken(invite)).toThrow('Invalid or expired token');
+  });
+
+  test('should rotate refresh tokens on every use', async () => {
+    const first = await createSession(user, client);
+
+    const second = await refreshSession(first.refreshToken, client);
+
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    await expect(refreshSession('not-a-token', client)).rejects.toThrow(SessionError);
+  });
+
+  test('should revoke the session when an old refresh token is replayed', async () => {
+    const first = await createSession(user, client);
+    const second = await refreshSession(first.refreshToken, client);
+    await Session.updateOne(
+      { _id: first.sessionId },
+      { rotatedAt: new Date(Date.now() - 60_000) }
+    );
+
+    await expect(refreshSession(first.refreshToken, client)).rejects.toThrow(SessionError);
+
+    expect(await isSessionActive(first.sessionId)).toBe(false);
+    await expect(refreshSession(second.refreshToken, client)).rejects.toThrow(
+      'Session has expired or been revoked'
+    );
+  });
+
+  test('should accept a just-rotated refresh token from a second tab', async () => {
+    const first = await createSession(user, client);
+    const tabA = await refreshSession(first.refreshToken, client);
+
+    const tabB = await refreshSession(first.refreshToken, client);
+
+    expect(await isSessionActive(first.sessionId)).toBe(true);
+    // The newest token is the one that works from now on
+    await expect(refreshSession(tabA.refreshToken, client)).rejects.toThrow(
+      'Invalid refresh token'
+    );
+    await expect(refreshSession(tabB.refreshToken, client)).resolves.toBeDefined();
+  });
+
+  test('should revoke one session or all of them', async () => {
+    const laptop = await createSession(user, client);
+    const phone = await createSession(user, { userAgent: 'Safari', ip: '10.0.0.2' });
+    const tablet = await createSession(user, client);
+
+    expect(await revokeSession(user._id.toString(), phone.sessionId)).toBe(true);
+    expect(await isSessionActive(phone.sessionId)).toBe(false);
+    expect((await listSessions(user._id.toString())).length).toBe(2);
+
+    // Other users cannot revoke the session
+    const other = await User.create({ name: 'Bob', email: 'bob@test.com', role: 'user' });
+    expect(await revokeSession(other._id.toString(), laptop.sessionId)).toBe(false);
+
+    await revokeRefreshToken(tablet.refreshToken);
+    expect(await isSessionActive(tablet.sessionId)).toBe(false);
+
+    expect(await revokeAllSessions(user._id.toString())).toBe(1);
+    expect(await listSessions(user._id.toString())).toEqual([]);
+  });
+});
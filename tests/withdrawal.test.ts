@@ -0,0 +1,79 @@
+import { repairAssignments } from '../src/services/withdrawal';
+import { createSeededRandom } from '../src/utils/random';
+
+const allowAll = (santa: string, receiver: string) => santa !== receiver;
+
+describe('Local repair after a withdrawal', () => {
+  test('should let the santa inherit the withdrawn person\'s receiver', () => {
+    // A -> B -> W -> C -> D -> A, W withdraws
+    const receiverOf = new Map([
+      ['A', 'B'],
+      ['C', 'D'],
+      ['D', 'A'],
+    ]);
+
+    const changed = repairAssignments(receiverOf, 'B', 'C', allowAll, true);
+
+    expect(changed).toEqual(['B']);
+    expect(Object.fromEntries(receiverOf)).toEqual({ A: 'B', B: 'C', C: 'D', D: 'A' });
+  });
+
+  test('should swap with one other santa when the pair drew each other', () => {
+    // A <-> W, B -> C -> D -> B, W withdraws
+    const receiverOf = new Map([
+      ['B', 'C'],
+      ['C', 'D'],
+      ['D', 'B'],
+    ]);
+
+    const changed = repairAssignments(
+      receiverOf,
+      'A',
+      'A',
+      allowAll,
+      true,
+      createSeededRandom('swap')
+    );
+
+    expect(changed).toHaveLength(2);
+    expect(changed![0]).toBe('A');
+
+    // Still a valid draw: everyone gives and receives exactly once, never to themselves
+    const santas = [...receiverOf.keys()].sort();
+    expect(santas).toEqual(['A', 'B', 'C', 'D']);
+    expect([...receiverOf.values()].sort()).toEqual(santas);
+    receiverOf.forEach((receiver, santa) => expect(receiver).not.toBe(santa));
+
+    // Only the other swapped santa lost their receiver
+    const untouched = santas.filter((id) => !changed!.includes(id));
+    expect(untouched).toHaveLength(2);
+  });
+
+  test('should honour exclusions when choosing whom to swap with', () => {
+    const receiverOf = new Map([
+      ['B', 'C'],
+      ['C', 'D'],
+      ['D', 'B'],
+    ]);
+    // A may only draw D
+    const canDraw = (santa: string, receiver: string) =>
+      santa !== receiver && (santa !== 'A' || receiver === 'D');
+
+    const changed = repairAssignments(receiverOf, 'A', 'A', canDraw, true);
+
+    expect(changed).toEqual(['A', 'C']);
+    expect(receiverOf.get('A')).toBe('D');
+    expect(receiverOf.get('C')).toBe('A');
+  });
+
+  test('should give up when no swap is allowed', () => {
+    const receiverOf = new Map([
+      ['B', 'C'],
+      ['C', 'B'],
+    ]);
+
+    expect(repairAssignments(receiverOf, 'A', 'A', allowAll, false)).toBeNull();
+    // Untouched on failure
+    expect(Object.fromEntries(receiverOf)).toEqual({ B: 'C', C: 'B' });
+  });
+});